@@ -0,0 +1,25 @@
+import './BarChart.css';
+
+export type BarChartRow = {
+    label: string;
+    value: number;
+    text: string;  // value as shown next to the bar
+};
+
+// one row per value, with a bar relative to the largest value in the chart
+export const BarChart = ({ rows }: { rows: BarChartRow[] }) => {
+    const largest = Math.max(1, ...rows.map(row => row.value));
+    return (
+        <div className="bar-chart">
+            {rows.map(({ label, value, text }) => (
+                <div key={label} className="bar-chart-row">
+                    <span className="bar-chart-label">{label}</span>
+                    <span className="bar-chart-bar">
+                        <span style={{ width: `${(value / largest) * 100}%` }} />
+                    </span>
+                    <span className="bar-chart-value">{text}</span>
+                </div>
+            ))}
+        </div>
+    );
+};
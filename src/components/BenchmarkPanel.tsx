@@ -0,0 +1,156 @@
+import { useEffect, useRef, useState } from "react";
+import type { Trie } from "../trie/Trie";
+import {
+    BENCHMARK_PHASES, buildWorkload, CONTENDER_LABELS, generateWords, runBenchmark,
+    type BenchmarkPhase, type BenchmarkProgress, type BenchmarkResult
+} from "../trie/benchmark";
+import { BarChart } from "./BarChart";
+import './BenchmarkPanel.css';
+
+type WordSource = 'trie' | 'generated';
+
+type BenchmarkRun = {
+    results: BenchmarkResult[];
+    words: number;
+    queries: number;
+    seed: number;
+};
+
+const PHASE_LABELS: Record<BenchmarkPhase, string> = {
+    build: 'Build',
+    lookup: 'Exact lookup',
+    prefix: 'Prefix query',
+    delete: 'Delete',
+};
+
+// the inputs stop here, runs this big already take most of a minute
+const MAX_WORDS = 50000;
+const MAX_QUERIES = 10000;
+
+type BenchmarkPanelProps = {
+    trie: Trie;
+};
+
+// runs the same seeded workload against a trie, a Set and a sorted array
+export const BenchmarkPanel = ({ trie }: BenchmarkPanelProps) => {
+    const [source, setSource] = useState<WordSource>('generated');
+    const [wordCount, setWordCount] = useState<number>(5000);
+    const [queries, setQueries] = useState<number>(2000);
+    const [seed, setSeed] = useState<number>(42);
+    const [run, setRun] = useState<BenchmarkRun | null>(null);
+    const [progress, setProgress] = useState<BenchmarkProgress | null>(null);  // null unless a run is going
+    const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+    useEffect(() => () => {
+        if (timerRef.current) clearTimeout(timerRef.current);
+    }, []);
+
+    const handleRun = () => {
+        const words = source === 'trie' ? trie.words() : generateWords(wordCount, seed);
+        const workload = buildWorkload(words, queries, seed);
+        const steps = runBenchmark(workload);
+
+        // one slice of the run per timer, so the page keeps drawing and the progress shows
+        const next = () => {
+            const step = steps.next();
+            if (step.done) {
+                setRun({ results: step.value, words: workload.words.length, queries, seed });
+                setProgress(null);
+                timerRef.current = null;
+                return;
+            }
+            setProgress(step.value);
+            timerRef.current = setTimeout(next, 0);
+        };
+        // each phase pauses before it starts, so this first step only reports the build
+        next();
+    };
+
+    const handleStop = () => {
+        if (timerRef.current) clearTimeout(timerRef.current);
+        timerRef.current = null;
+        setProgress(null);
+    };
+
+    return (
+        <details className="benchmark-panel">
+            <summary>Benchmark</summary>
+
+            <div className="benchmark-options">
+                <label>
+                    Words
+                    <select value={source} onChange={(e) => setSource(e.target.value as WordSource)}>
+                        <option value="generated">Generated</option>
+                        <option value="trie">Current trie ({trie.wordCount()})</option>
+                    </select>
+                </label>
+                {source === 'generated' && (
+                    <label>
+                        Count
+                        <input
+                            type="number"
+                            min={1}
+                            max={MAX_WORDS}
+                            value={wordCount}
+                            onChange={(e) => setWordCount(Math.min(MAX_WORDS, Math.max(1, Number(e.target.value))))}
+                        />
+                    </label>
+                )}
+                <label>
+                    Queries
+                    <input
+                        type="number"
+                        min={1}
+                        max={MAX_QUERIES}
+                        value={queries}
+                        onChange={(e) => setQueries(Math.min(MAX_QUERIES, Math.max(1, Number(e.target.value))))}
+                    />
+                </label>
+                <label>
+                    Seed
+                    <input type="number" value={seed} onChange={(e) => setSeed(Number(e.target.value))} />
+                </label>
+            </div>
+
+            {progress ? (
+                <div className="benchmark-progress" aria-live="polite">
+                    <progress value={progress.done} max={progress.total} />
+                    <span>{CONTENDER_LABELS[progress.contender]}: {PHASE_LABELS[progress.phase]}</span>
+                    <button onClick={handleStop}>Stop</button>
+                </div>
+            ) : (
+                <button className="benchmark-run" onClick={handleRun}>Run benchmark</button>
+            )}
+
+            {run && (
+                <div className="benchmark-results">
+                    <div className="benchmark-summary">
+                        {run.words} words, {run.queries} queries per phase, seed {run.seed}
+                    </div>
+
+                    {BENCHMARK_PHASES.map(phase => {
+                        const rows = run.results.filter(result => result.phase === phase);
+                        return (
+                            <div key={phase} className="benchmark-phase">
+                                <h4>{PHASE_LABELS[phase]}</h4>
+                                <div className="benchmark-chart-label">Time</div>
+                                <BarChart
+                                    rows={rows.map(({ contender, ms }) => ({
+                                        label: CONTENDER_LABELS[contender], value: ms, text: `${ms.toFixed(2)} ms`
+                                    }))}
+                                />
+                                <div className="benchmark-chart-label">Nodes or elements visited</div>
+                                <BarChart
+                                    rows={rows.map(({ contender, visits }) => ({
+                                        label: CONTENDER_LABELS[contender], value: visits, text: visits.toLocaleString()
+                                    }))}
+                                />
+                            </div>
+                        );
+                    })}
+                    <div className="benchmark-hint">Visit counts repeat exactly for the same seed, timings depend on the machine</div>
+                </div>
+            )}
+        </details>
+    );
+};
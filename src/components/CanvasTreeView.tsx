@@ -0,0 +1,293 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import type { ViewTransform } from "../hooks/useViewport";
+import type { Palette } from "./palettes";
+import './CanvasTreeView.css';
+
+// what the canvas needs to draw a laid out node
+export type CanvasNode = {
+    id: number;
+    prefix: string;
+    char: string;
+    x: number;
+    y: number;
+    isEndOfWord: boolean;
+    children: number[];
+    edgeLabel?: string;
+    collapsed?: boolean;
+    hiddenWords?: number;  // shown on the badge of a collapsed node
+    hiddenNodes?: number;
+};
+
+export type NodeStyle = {
+    fill: string;
+    stroke: string;
+    text: string;
+    strokeWidth: number;
+    dashed: boolean;
+    opacity: number;
+};
+
+type CanvasTreeViewProps<T extends CanvasNode> = {
+    nodes: T[];
+    transform: ViewTransform;
+    size: { width: number, height: number };
+    highlights: { node: T, style: NodeStyle }[];  // drawn over the plain tree
+    selectedId?: number;                           // ringed until something else is picked
+    palette: Palette;
+    onKeyDown: (e: React.KeyboardEvent<HTMLDivElement>) => void;
+    onNodeClick: (node: T, e: React.MouseEvent<HTMLDivElement>) => void;  // modifier keys pick what a click does
+    onNodeDoubleClick: (node: T) => void;
+};
+
+const NODE_RADIUS = 20;
+const CELL_SIZE = 64;         // world units per hit-testing grid cell
+const MIN_LABEL_RADIUS = 7;   // on-screen radius below which labels are not worth drawing
+
+const cellKey = (x: number, y: number): string => `${Math.floor(x / CELL_SIZE)}:${Math.floor(y / CELL_SIZE)}`;
+
+// bucket nodes by grid cell so a pointer only has to check its neighbourhood
+const buildGrid = <T extends CanvasNode>(nodes: T[]): Map<string, T[]> => {
+    const grid = new Map<string, T[]>();
+    nodes.forEach(node => {
+        const key = cellKey(node.x, node.y);
+        const cell = grid.get(key);
+        if (cell) {
+            cell.push(node);
+        } else {
+            grid.set(key, [node]);
+        }
+    });
+    return grid;
+};
+
+// size the backing store for the screen's pixel density and map world coordinates onto it
+const prepareContext = (canvas: HTMLCanvasElement, transform: ViewTransform, size: { width: number, height: number }) => {
+    const ratio = window.devicePixelRatio || 1;
+    const width = Math.round(size.width * ratio);
+    const height = Math.round(size.height * ratio);
+    if (canvas.width !== width || canvas.height !== height) {
+        canvas.width = width;
+        canvas.height = height;
+    }
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.clearRect(0, 0, width, height);
+    ctx.setTransform(ratio * transform.scale, 0, 0, ratio * transform.scale, ratio * transform.x, ratio * transform.y);
+    return ctx;
+};
+
+// world rectangle on screen, grown by a node radius so half visible nodes are kept
+const visibleArea = (transform: ViewTransform, size: { width: number, height: number }) => ({
+    minX: -transform.x / transform.scale - NODE_RADIUS,
+    maxX: (size.width - transform.x) / transform.scale + NODE_RADIUS,
+    minY: -transform.y / transform.scale - NODE_RADIUS,
+    maxY: (size.height - transform.y) / transform.scale + NODE_RADIUS,
+});
+
+const drawNode = (ctx: CanvasRenderingContext2D, node: CanvasNode, style: NodeStyle, withLabel: boolean) => {
+    ctx.globalAlpha = style.opacity;
+    ctx.beginPath();
+    ctx.arc(node.x, node.y, NODE_RADIUS, 0, Math.PI * 2);
+    ctx.fillStyle = style.fill;
+    ctx.fill();
+    ctx.setLineDash(style.dashed ? [4, 3] : []);
+    ctx.lineWidth = style.strokeWidth;
+    ctx.strokeStyle = style.stroke;
+    ctx.stroke();
+    ctx.setLineDash([]);
+
+    if (withLabel && node.char) {
+        ctx.fillStyle = style.text;
+        ctx.fillText(node.char, node.x, node.y + 5);
+    }
+    ctx.globalAlpha = 1;
+};
+
+// draws big trees on two canvases: the plain tree only when it moves, highlights on top as they change
+export const CanvasTreeView = <T extends CanvasNode>({
+    nodes, transform, size, highlights, selectedId, palette, onKeyDown, onNodeClick, onNodeDoubleClick
+}: CanvasTreeViewProps<T>) => {
+    const treeCanvasRef = useRef<HTMLCanvasElement>(null);
+    const overlayCanvasRef = useRef<HTMLCanvasElement>(null);
+    const [hovered, setHovered] = useState<T | null>(null);
+
+    const nodeMap = useMemo(() => new Map(nodes.map(node => [node.id, node])), [nodes]);
+    const grid = useMemo(() => buildGrid(nodes), [nodes]);
+
+    // the plain tree, batched into one path per colour
+    useEffect(() => {
+        const canvas = treeCanvasRef.current;
+        if (!canvas) return;
+        const ctx = prepareContext(canvas, transform, size);
+        if (!ctx) return;
+
+        const area = visibleArea(transform, size);
+        const isVisible = (x: number, y: number) => x >= area.minX && x <= area.maxX && y >= area.minY && y <= area.maxY;
+        const visible = nodes.filter(node => isVisible(node.x, node.y));
+
+        ctx.beginPath();
+        nodes.forEach(node => {
+            node.children.forEach(childId => {
+                const child = nodeMap.get(childId);
+                if (!child) return;
+                // skip edges whose bounding box misses the screen
+                if (Math.max(node.x, child.x) < area.minX || Math.min(node.x, child.x) > area.maxX) return;
+                if (Math.max(node.y, child.y) < area.minY || Math.min(node.y, child.y) > area.maxY) return;
+                ctx.moveTo(node.x, node.y);
+                ctx.lineTo(child.x, child.y);
+            });
+        });
+        ctx.strokeStyle = palette.edge;
+        ctx.lineWidth = 1.5;
+        ctx.stroke();
+
+        [palette.plain, palette.word].forEach(style => {
+            ctx.beginPath();
+            visible
+                .filter(node => (style === palette.word) === node.isEndOfWord)
+                .forEach(node => {
+                    ctx.moveTo(node.x + NODE_RADIUS, node.y);
+                    ctx.arc(node.x, node.y, NODE_RADIUS, 0, Math.PI * 2);
+                });
+            ctx.fillStyle = style.fill;
+            ctx.fill();
+            ctx.lineWidth = style.strokeWidth;
+            ctx.strokeStyle = style.stroke;
+            ctx.stroke();
+        });
+
+        // collapsed subtrees get a second ring
+        ctx.beginPath();
+        visible.filter(node => node.collapsed).forEach(node => {
+            ctx.moveTo(node.x + NODE_RADIUS + 5, node.y);
+            ctx.arc(node.x, node.y, NODE_RADIUS + 5, 0, Math.PI * 2);
+        });
+        ctx.lineWidth = 1.5;
+        ctx.strokeStyle = palette.plain.stroke;
+        ctx.stroke();
+
+        // and the badge with what they hold below them, as in the svg view
+        const badged = visible.filter(node => node.collapsed);
+        ctx.beginPath();
+        badged.forEach(node => ctx.roundRect(node.x - 42, node.y + 30, 84, 20, 10));
+        ctx.fillStyle = palette.badge.fill;
+        ctx.fill();
+
+        // labels only once they are large enough to read
+        if (NODE_RADIUS * transform.scale < MIN_LABEL_RADIUS) return;
+
+        ctx.font = "600 11px sans-serif";
+        ctx.textAlign = "center";
+        ctx.fillStyle = palette.badge.text;
+        badged.forEach(node => ctx.fillText(`${node.hiddenWords}w · ${node.hiddenNodes} nodes`, node.x, node.y + 44));
+
+        ctx.font = "bold 14px sans-serif";
+        ctx.textAlign = "center";
+        visible.forEach(node => {
+            if (!node.char) return;
+            ctx.fillStyle = node.isEndOfWord ? palette.word.text : palette.plain.text;
+            ctx.fillText(node.char, node.x, node.y + 5);
+        });
+
+        ctx.font = "600 13px sans-serif";
+        ctx.fillStyle = palette.edge;
+        nodes.forEach(node => {
+            node.children.forEach(childId => {
+                const child = nodeMap.get(childId);
+                if (!child?.edgeLabel) return;
+                const x = (node.x + child.x) / 2;
+                const y = (node.y + child.y) / 2;
+                if (isVisible(x, y)) ctx.fillText(child.edgeLabel, x, y + 4);
+            });
+        });
+    }, [nodes, nodeMap, palette, transform, size]);
+
+    // highlighted paths and the hovered node
+    useEffect(() => {
+        const canvas = overlayCanvasRef.current;
+        if (!canvas) return;
+        const ctx = prepareContext(canvas, transform, size);
+        if (!ctx) return;
+
+        const withLabels = NODE_RADIUS * transform.scale >= MIN_LABEL_RADIUS;
+        ctx.font = "bold 14px sans-serif";
+        ctx.textAlign = "center";
+        highlights.forEach(({ node, style }) => drawNode(ctx, node, style, withLabels));
+
+        const selected = selectedId === undefined ? undefined : nodeMap.get(selectedId);
+        if (selected) {
+            ctx.beginPath();
+            ctx.arc(selected.x, selected.y, NODE_RADIUS + 5, 0, Math.PI * 2);
+            ctx.lineWidth = 3;
+            ctx.strokeStyle = palette.selected;
+            ctx.stroke();
+        }
+
+        if (hovered) {
+            ctx.beginPath();
+            ctx.arc(hovered.x, hovered.y, NODE_RADIUS + 4, 0, Math.PI * 2);
+            ctx.lineWidth = 3 / transform.scale;
+            ctx.strokeStyle = palette.selected;
+            ctx.stroke();
+
+            // the full prefix, which the node itself only shows one key of
+            ctx.font = `600 ${13 / transform.scale}px sans-serif`;
+            ctx.fillStyle = palette.selected;
+            ctx.fillText(hovered.prefix || 'root', hovered.x, hovered.y - NODE_RADIUS - 10 / transform.scale);
+        }
+    }, [highlights, selectedId, nodeMap, palette, hovered, transform, size]);
+
+    // the node under a pointer, if any
+    const hitTest = (e: React.MouseEvent): T | null => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        const worldX = (e.clientX - rect.left - transform.x) / transform.scale;
+        const worldY = (e.clientY - rect.top - transform.y) / transform.scale;
+
+        let closest: T | null = null;
+        let closestDistance = NODE_RADIUS;
+        for (let dx = -1; dx <= 1; dx++) {
+            for (let dy = -1; dy <= 1; dy++) {
+                const cell = grid.get(cellKey(worldX + dx * CELL_SIZE, worldY + dy * CELL_SIZE)) ?? [];
+                cell.forEach(node => {
+                    const distance = Math.hypot(node.x - worldX, node.y - worldY);
+                    if (distance <= closestDistance) {
+                        closest = node;
+                        closestDistance = distance;
+                    }
+                });
+            }
+        }
+        return closest;
+    };
+
+    return (
+        <div
+            className={`canvas-tree ${hovered ? 'hovering' : ''}`}
+            // a canvas has no treeitems to own, so the keys are handled here and each move is read out by the live region
+            role="application"
+            aria-roledescription="tree"
+            aria-label="Trie drawn on a canvas, use the arrow keys to move between nodes and Enter to collapse"
+            tabIndex={0}
+            onKeyDown={onKeyDown}
+            onMouseMove={(e) => {
+                const node = hitTest(e);
+                if (node?.id !== hovered?.id) setHovered(node);
+            }}
+            onMouseLeave={() => setHovered(null)}
+            onClick={(e) => {
+                const node = hitTest(e);
+                if (node) onNodeClick(node, e);
+            }}
+            onDoubleClick={(e) => {
+                const node = hitTest(e);
+                if (node) onNodeDoubleClick(node);
+            }}
+        >
+            <canvas ref={treeCanvasRef} />
+            <canvas ref={overlayCanvasRef} />
+        </div>
+    );
+};
@@ -0,0 +1,108 @@
+import { useState } from "react";
+import type { DictionaryInfo } from "../trie/dictionaryStore";
+import './DictionaryManager.css';
+
+type DictionaryManagerProps = {
+    dictionaries: DictionaryInfo[];
+    activeId: string | null;
+    onSwitch: (id: string) => void;
+    onCreate: (name: string) => void;
+    onRename: (id: string, name: string) => void;
+    onDuplicate: (id: string) => void;
+    onDelete: (id: string) => void;
+};
+
+// the saved dictionaries, the active one is the trie on screen and saves itself as it changes
+export const DictionaryManager = ({
+    dictionaries, activeId, onSwitch, onCreate, onRename, onDuplicate, onDelete
+}: DictionaryManagerProps) => {
+    const [newName, setNewName] = useState<string>("");
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [editingName, setEditingName] = useState<string>("");
+    const [confirmingId, setConfirmingId] = useState<string | null>(null);
+
+    const handleCreate = () => {
+        onCreate(newName);
+        setNewName("");
+    };
+
+    const startRename = (dictionary: DictionaryInfo) => {
+        setEditingId(dictionary.id);
+        setEditingName(dictionary.name);
+    };
+
+    const finishRename = () => {
+        if (editingId && editingName.trim()) onRename(editingId, editingName.trim());
+        setEditingId(null);
+    };
+
+    return (
+        <details className="dictionary-manager">
+            <summary>
+                Dictionary: <span className="dictionary-manager-active">
+                    {dictionaries.find(dictionary => dictionary.id === activeId)?.name ?? 'not saved'}
+                </span>
+            </summary>
+
+            <ul className="dictionary-manager-list">
+                {dictionaries.map(dictionary => (
+                    <li key={dictionary.id} className={dictionary.id === activeId ? 'active' : ''}>
+                        {editingId === dictionary.id ? (
+                            <input
+                                type="text"
+                                value={editingName}
+                                onChange={(e) => setEditingName(e.target.value)}
+                                onKeyDown={(e) => {
+                                    if (e.key === 'Enter') finishRename();
+                                    if (e.key === 'Escape') setEditingId(null);
+                                }}
+                                onBlur={finishRename}
+                                aria-label={`New name for ${dictionary.name}`}
+                                autoFocus
+                            />
+                        ) : (
+                            <button
+                                className="dictionary-manager-name"
+                                onClick={() => onSwitch(dictionary.id)}
+                                aria-current={dictionary.id === activeId}
+                            >
+                                {dictionary.name}
+                            </button>
+                        )}
+
+                        <div className="dictionary-manager-actions">
+                            <button onClick={() => startRename(dictionary)} title="Rename">Rename</button>
+                            <button onClick={() => onDuplicate(dictionary.id)} title="Duplicate">Copy</button>
+                            {confirmingId === dictionary.id ? (
+                                <button
+                                    className="danger"
+                                    onClick={() => {
+                                        setConfirmingId(null);
+                                        onDelete(dictionary.id);
+                                    }}
+                                    onBlur={() => setConfirmingId(null)}
+                                >
+                                    Sure?
+                                </button>
+                            ) : (
+                                <button onClick={() => setConfirmingId(dictionary.id)} title="Delete">Delete</button>
+                            )}
+                        </div>
+                    </li>
+                ))}
+            </ul>
+
+            <div className="dictionary-manager-new">
+                <input
+                    type="text"
+                    value={newName}
+                    onChange={(e) => setNewName(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+                    placeholder="New dictionary, e.g. medical terms"
+                    aria-label="New dictionary name"
+                />
+                <button onClick={handleCreate}>Create</button>
+            </div>
+        </details>
+    );
+};
@@ -0,0 +1,113 @@
+import { useRef, useState } from "react";
+import type { Trie } from "../trie/Trie";
+import {
+    encodeWordsHash, exportTrieJson, importTrieJson, parseWordList, trieFromWords, TrieFormatError
+} from "../trie/serialization";
+import './ImportExportPanel.css';
+
+const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10 MB
+
+type ImportExportPanelProps = {
+    trie: Trie;
+    onImport: (trie: Trie, message: string) => void;
+    onMessage: (message: string) => void;
+};
+
+export const ImportExportPanel = ({ trie, onImport, onMessage }: ImportExportPanelProps) => {
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [isDragging, setIsDragging] = useState<boolean>(false);
+
+    const importFile = async (file: File) => {
+        if (file.size > MAX_FILE_SIZE) {
+            onMessage(`"${file.name}" is too large to import (limit is 10 MB)`);
+            return;
+        }
+
+        try {
+            const text = await file.text();
+
+            // both JSON formats keep weights, the full export and the word list dictionaries are saved as
+            if (file.name.endsWith('.json') || text.trimStart().startsWith('{')) {
+                const imported = importTrieJson(text);
+                onImport(imported, `Imported trie from "${file.name}"`);
+            } else {
+                const words = parseWordList(text);
+                onImport(trieFromWords(words, trie.normalizer.options), `Imported ${words.length} words from "${file.name}"`);
+            }
+        } catch (error) {
+            if (error instanceof TrieFormatError) {
+                onMessage(`Could not import "${file.name}": ${error.message}`);
+            } else {
+                onMessage(`Could not read "${file.name}"`);
+            }
+        }
+    };
+
+    const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (file) importFile(file);
+
+        // allow picking the same file again
+        e.target.value = "";
+    };
+
+    const handleDrop = (e: React.DragEvent) => {
+        e.preventDefault();
+        setIsDragging(false);
+
+        const file = e.dataTransfer.files[0];
+        if (file) importFile(file);
+    };
+
+    const handleExport = () => {
+        const blob = new Blob([exportTrieJson(trie)], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = 'trie.json';
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
+    const handleShare = async () => {
+        const hash = encodeWordsHash(trie);
+        window.history.replaceState(null, '', hash);
+
+        try {
+            await navigator.clipboard.writeText(window.location.href);
+            onMessage("Share link copied to the clipboard!");
+        } catch {
+            onMessage("Share link is in the address bar, copy it from there");
+        }
+    };
+
+    return (
+        <div className="import-export">
+            <div
+                className={`drop-zone ${isDragging ? 'dragging' : ''}`}
+                onDragOver={(e) => {
+                    e.preventDefault();
+                    setIsDragging(true);
+                }}
+                onDragLeave={() => setIsDragging(false)}
+                onDrop={handleDrop}
+                onClick={() => fileInputRef.current?.click()}
+            >
+                Drop a word list (.txt) or trie export (.json) here, or click to pick a file
+            </div>
+            <input
+                ref={fileInputRef}
+                type="file"
+                accept=".txt,.json,text/plain,application/json"
+                onChange={handleFileChange}
+                hidden
+            />
+
+            <div className="import-export-buttons">
+                <button onClick={handleExport}>Export JSON</button>
+                <button onClick={handleShare}>Copy Share Link</button>
+            </div>
+        </div>
+    );
+};
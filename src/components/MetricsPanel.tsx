@@ -0,0 +1,68 @@
+import { useState } from "react";
+import type { Trie } from "../trie/Trie";
+import type { TrieStatistics } from "../trie/statistics";
+import { RenderCache } from "../layout/RenderCache";
+import { BarChart } from "./BarChart";
+import './MetricsPanel.css';
+
+type MetricsPanelProps = {
+    trie: Trie;
+    version: number;  // trie version, statistics are only walked again when it moves
+};
+
+const formatBytes = (bytes: number): string => {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+};
+
+// structure and memory figures that follow the trie as it changes, only walked while open
+export const MetricsPanel = ({ trie, version }: MetricsPanelProps) => {
+    const [open, setOpen] = useState<boolean>(false);
+    const [statisticsCache] = useState(() => new RenderCache<TrieStatistics>());
+
+    const stats = open ? statisticsCache.get([trie, version], () => trie.statistics()) : null;
+
+    return (
+        <details className="metrics-panel" open={open} onToggle={(e) => setOpen(e.currentTarget.open)}>
+            <summary>Metrics</summary>
+
+            {stats && (
+                <>
+                    <dl className="metrics-grid">
+                        <dt>Nodes</dt>
+                        <dd>{stats.nodes}</dd>
+                        <dt>Shared nodes</dt>
+                        <dd>{stats.sharedNodes}</dd>
+                        <dt>Keys saved by sharing</dt>
+                        <dd>
+                            {stats.keysStored - (stats.nodes - 1)}
+                            {stats.keysStored > 0 && ` (${Math.round((1 - (stats.nodes - 1) / stats.keysStored) * 100)}%)`}
+                        </dd>
+                        <dt>Average depth</dt>
+                        <dd>{stats.averageDepth.toFixed(1)}</dd>
+                        <dt>Maximum depth</dt>
+                        <dd>{stats.maxDepth}</dd>
+                    </dl>
+
+                    <h4>Children per node</h4>
+                    <BarChart
+                        rows={[...stats.branching]
+                            .sort(([a], [b]) => a - b)
+                            .map(([children, nodes]) => ({ label: String(children), value: nodes, text: String(nodes) }))}
+                    />
+
+                    <h4>Estimated memory</h4>
+                    <BarChart
+                        rows={[
+                            { label: 'Trie', value: stats.memory.trie, text: formatBytes(stats.memory.trie) },
+                            { label: 'Array', value: stats.memory.array, text: formatBytes(stats.memory.array) },
+                            { label: 'Set', value: stats.memory.set, text: formatBytes(stats.memory.set) },
+                        ]}
+                    />
+                    <div className="metrics-hint">Rough heap sizes, the trie also pays for a full prefix on every node</div>
+                </>
+            )}
+        </details>
+    );
+};
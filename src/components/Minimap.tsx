@@ -0,0 +1,91 @@
+import { useEffect, useRef } from "react";
+import { DRAG_THRESHOLD, type Bounds, type ViewTransform } from "../hooks/useViewport";
+import type { Palette } from "./palettes";
+import './Minimap.css';
+
+const MAP_WIDTH = 200;
+const MAP_HEIGHT = 130;
+const MAP_PADDING = 10;
+
+type MinimapProps = {
+    nodes: { id: number, x: number, y: number }[];
+    bounds: Bounds;
+    transform: ViewTransform;
+    viewSize: { width: number, height: number };
+    palette: Palette;
+    onNavigate: (worldX: number, worldY: number) => void;
+};
+
+// overview of the whole tree with a rectangle for the part on screen
+export const Minimap = ({ nodes, bounds, transform, viewSize, palette, onNavigate }: MinimapProps) => {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const pressRef = useRef<{ x: number, y: number } | null>(null);
+    const worldWidth = Math.max(bounds.maxX - bounds.minX, 1);
+    const worldHeight = Math.max(bounds.maxY - bounds.minY, 1);
+    const mapScale = Math.min(
+        (MAP_WIDTH - MAP_PADDING * 2) / worldWidth,
+        (MAP_HEIGHT - MAP_PADDING * 2) / worldHeight
+    );
+
+    // world to minimap coordinates, centered in the map
+    const offsetX = (MAP_WIDTH - worldWidth * mapScale) / 2 - bounds.minX * mapScale;
+    const offsetY = (MAP_HEIGHT - worldHeight * mapScale) / 2 - bounds.minY * mapScale;
+
+    // the visible area, converted from screen back to world coordinates
+    const viewLeft = -transform.x / transform.scale;
+    const viewTop = -transform.y / transform.scale;
+    const viewWidth = viewSize.width / transform.scale;
+    const viewHeight = viewSize.height / transform.scale;
+
+    // dots go on a canvas, a big tree would need tens of thousands of svg circles
+    useEffect(() => {
+        const ctx = canvasRef.current?.getContext('2d');
+        if (!ctx) return;
+
+        ctx.clearRect(0, 0, MAP_WIDTH, MAP_HEIGHT);
+        ctx.fillStyle = palette.word.fill;
+        ctx.beginPath();
+        nodes.forEach(node => {
+            const x = node.x * mapScale + offsetX;
+            const y = node.y * mapScale + offsetY;
+            ctx.moveTo(x + 2, y);
+            ctx.arc(x, y, 2, 0, Math.PI * 2);
+        });
+        ctx.fill();
+    }, [nodes, mapScale, offsetX, offsetY, palette]);
+
+    // a press that moved is a drag, releasing it should not jump the view
+    const handleClick = (e: React.MouseEvent<HTMLDivElement>) => {
+        const press = pressRef.current;
+        pressRef.current = null;
+        if (!press || Math.hypot(e.clientX - press.x, e.clientY - press.y) >= DRAG_THRESHOLD) return;
+
+        const rect = e.currentTarget.getBoundingClientRect();
+        const worldX = (e.clientX - rect.left - offsetX) / mapScale;
+        const worldY = (e.clientY - rect.top - offsetY) / mapScale;
+        onNavigate(worldX, worldY);
+    };
+
+    return (
+        <div
+            className="minimap"
+            style={{ width: MAP_WIDTH, height: MAP_HEIGHT }}
+            onPointerDown={(e) => { pressRef.current = { x: e.clientX, y: e.clientY }; }}
+            onClick={handleClick}
+        >
+            <canvas ref={canvasRef} width={MAP_WIDTH} height={MAP_HEIGHT} />
+            <svg width={MAP_WIDTH} height={MAP_HEIGHT}>
+                <g transform={`translate(${offsetX}, ${offsetY}) scale(${mapScale})`}>
+                    <rect
+                        className="minimap-view"
+                        x={viewLeft}
+                        y={viewTop}
+                        width={viewWidth}
+                        height={viewHeight}
+                        strokeWidth={1.5 / mapScale}
+                    />
+                </g>
+            </svg>
+        </div>
+    );
+};
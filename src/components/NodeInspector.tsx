@@ -0,0 +1,134 @@
+import { useState } from "react";
+import type { Trie } from "../trie/Trie";
+import type { RadixNode, RadixTrie } from "../trie/RadixTrie";
+import { RenderCache } from "../layout/RenderCache";
+import './NodeInspector.css';
+
+const WORD_LIMIT = 100; // words listed, the counters still cover all of them
+
+// where a node sits in the structure on screen, words through it are the same in every structure
+type NodeShape = {
+    depth: number;     // edges from the root
+    children: number;
+    nodes: number;     // in the subtree, the node included
+};
+
+// a radix trie keeps no counters, so its subtree is walked
+const countRadixNodes = (node: RadixNode): number => {
+    let nodes = 1;
+    for (const child of node.children.values()) nodes += countRadixNodes(child);
+    return nodes;
+};
+
+const radixShape = (radix: RadixTrie, prefix: string): NodeShape | null => {
+    let node = radix.getRoot();
+    let depth = 0;
+    let rest = prefix;
+    while (rest.length > 0) {
+        const child = [...node.children.values()].find(({ label }) => rest.startsWith(label));
+        if (!child) return null;
+        rest = rest.slice(child.label.length);
+        node = child;
+        depth++;
+    }
+    return { depth, children: node.children.size, nodes: countRadixNodes(node) };
+};
+
+type NodeInspectorProps = {
+    trie: Trie;
+    version: number;          // trie version, the word list is cached against it
+    radix?: RadixTrie;        // on screen instead of the trie, the node's place is read from it
+    prefix: string;           // normalized text of the selected node
+    collapsed: boolean;
+    onSearch: (word: string) => void;
+    onInsert: (word: string) => void;
+    onDelete: (word: string) => void;
+    onSelect: (prefix: string) => void;
+    onToggleCollapsed: () => void;
+    onFocus: () => void;
+    onClose: () => void;
+};
+
+// everything the trie knows about one node, with the operations that start from it
+export const NodeInspector = ({
+    trie, version, radix, prefix, collapsed, onSearch, onInsert, onDelete, onSelect, onToggleCollapsed, onFocus, onClose
+}: NodeInspectorProps) => {
+    const [suffix, setSuffix] = useState<string>("");
+    const [wordCache] = useState(() => new RenderCache<string[]>());
+    const [radixCache] = useState(() => new RenderCache<NodeShape | null>());
+
+    const path = trie.normalizer.segment(prefix);
+    const node = trie.getNode(path);
+    if (!node) return null;
+
+    const shape = radix
+        ? radixCache.get([radix, radix.getVersion(), prefix], () => radixShape(radix, prefix))
+        : { depth: path.length, children: node.children.size, nodes: node.subtreeSize };
+    if (!shape) return null;
+
+    const words = wordCache.get([trie, version, prefix], () => trie.words(prefix));
+    const storedBelow = node.passCount - (node.isEndOfWord ? 1 : 0);
+
+    const handleExtend = () => {
+        if (!suffix.trim()) return;
+        onInsert(prefix + suffix.trim());
+        setSuffix("");
+    };
+
+    return (
+        <div className="node-inspector">
+            <div className="node-inspector-header">
+                <h3>Node "{prefix || 'root'}"</h3>
+                <button className="node-inspector-close" onClick={onClose} title="Close">×</button>
+            </div>
+
+            <dl className="node-inspector-stats">
+                <dt>Depth</dt>
+                <dd>{shape.depth}</dd>
+                <dt>Ends a word</dt>
+                <dd>{node.isEndOfWord ? `yes${node.weight > 1 ? ` (×${node.weight})` : ''}` : 'no'}</dd>
+                <dt>Children</dt>
+                <dd>{shape.children}</dd>
+                <dt>Words passing through</dt>
+                <dd>{node.passCount}</dd>
+                <dt>Words stored below</dt>
+                <dd>{storedBelow}</dd>
+                <dt>Nodes in subtree</dt>
+                <dd>{shape.nodes}</dd>
+            </dl>
+
+            <div className="node-inspector-actions">
+                <button onClick={() => onSearch(prefix)} disabled={!prefix}>Search</button>
+                <button onClick={() => onDelete(prefix)} disabled={!node.isEndOfWord}>Delete</button>
+                <button onClick={onToggleCollapsed} disabled={shape.children === 0 && !collapsed}>
+                    {collapsed ? 'Expand' : 'Collapse'}
+                </button>
+                <button onClick={onFocus}>Focus</button>
+            </div>
+
+            <div className="node-inspector-extend">
+                <span className="node-inspector-prefix">{prefix}</span>
+                <input
+                    type="text"
+                    value={suffix}
+                    onChange={(e) => setSuffix(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleExtend()}
+                    placeholder="rest of the word"
+                    aria-label={`Extend "${prefix}" with`}
+                />
+                <button onClick={handleExtend}>Extend</button>
+            </div>
+
+            {words.length > 0 && (
+                <div className="node-inspector-words">
+                    {words.slice(0, WORD_LIMIT).map(word => (
+                        <button key={word} className="node-inspector-word" onClick={() => onSelect(word)}>{word}</button>
+                    ))}
+                    {words.length > WORD_LIMIT && (
+                        <span className="node-inspector-more">and {words.length - WORD_LIMIT} more</span>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,61 @@
+import { Normalizer, type NormalizationOptions } from "../trie/normalization";
+import './NormalizationPanel.css';
+
+type NormalizationPanelProps = {
+    options: NormalizationOptions;
+    onChange: (options: NormalizationOptions) => void;
+};
+
+// shows how words are turned into keys, and lets the user pick another policy
+export const NormalizationPanel = ({ options, onChange }: NormalizationPanelProps) => {
+    const update = (changes: Partial<NormalizationOptions>) => onChange({ ...options, ...changes });
+
+    return (
+        <details className="normalization-panel">
+            <summary>
+                Keys: <span className="normalization-policy">{new Normalizer(options).describe()}</span>
+            </summary>
+
+            <div className="normalization-options">
+                <label>
+                    <input
+                        type="checkbox"
+                        checked={options.caseFold}
+                        onChange={(e) => update({ caseFold: e.target.checked })}
+                    />
+                    Fold case
+                </label>
+                <label>
+                    <input
+                        type="checkbox"
+                        checked={options.stripDiacritics}
+                        onChange={(e) => update({ stripDiacritics: e.target.checked })}
+                    />
+                    Strip diacritics
+                </label>
+                <label>
+                    Unicode form
+                    <select
+                        value={options.form}
+                        onChange={(e) => update({ form: e.target.value as NormalizationOptions['form'] })}
+                    >
+                        <option value="none">None</option>
+                        <option value="NFC">NFC</option>
+                        <option value="NFD">NFD</option>
+                    </select>
+                </label>
+                <label>
+                    One node per
+                    <select
+                        value={options.segmentation}
+                        onChange={(e) => update({ segmentation: e.target.value as NormalizationOptions['segmentation'] })}
+                    >
+                        <option value="grapheme">Grapheme</option>
+                        <option value="code-point">Code point</option>
+                    </select>
+                </label>
+            </div>
+            <div className="normalization-hint">Changing the policy rebuilds the trie from its words</div>
+        </details>
+    );
+};
@@ -0,0 +1,42 @@
+import type { QueuedOperation } from "../hooks/useOperationQueue";
+import './OperationQueuePanel.css';
+
+type OperationQueuePanelProps = {
+    current: string | null;   // operation being played, if any
+    paused: boolean;
+    pending: QueuedOperation[];
+    onCancel: (id: number) => void;
+    onClear: () => void;
+};
+
+// what is running and what is waiting for its turn
+export const OperationQueuePanel = ({ current, paused, pending, onCancel, onClear }: OperationQueuePanelProps) => {
+    if (!current && pending.length === 0) return null;
+
+    return (
+        <div className="operation-queue">
+            <div className="operation-queue-header">
+                <h3>Operations</h3>
+                {pending.length > 0 && <button className="queue-clear" onClick={onClear}>Cancel all</button>}
+            </div>
+
+            {current && (
+                <div className="queue-item current">
+                    <span>{current}</span>
+                    <span className="queue-status">{paused ? 'paused' : 'running'}</span>
+                </div>
+            )}
+
+            {pending.map(operation => (
+                <div key={operation.id} className="queue-item">
+                    <span>{operation.label}</span>
+                    <button onClick={() => onCancel(operation.id)} title="Cancel">×</button>
+                </div>
+            ))}
+
+            {paused && pending.length > 0 && (
+                <div className="queue-hint">Queued operations start once playback finishes</div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,175 @@
+import { useState } from "react";
+import type { Trie } from "../trie/Trie";
+import {
+    recordCommonPrefix, recordCount, recordIterate, recordKth, recordLongestPrefix, recordRange, recordRank,
+    type TrieOperation
+} from "../trie/operations";
+import './OrderedQueryPanel.css';
+
+const DEFAULT_LIMIT = 5;
+
+type OrderedQueryPanelProps = {
+    wordCount: number;
+    // queues a query, recorded against the trie once its turn comes
+    onQuery: (label: string, record: (trie: Trie) => TrieOperation) => void;
+};
+
+// queries that rely on children being sorted, each one animated like a search
+export const OrderedQueryPanel = ({ wordCount, onQuery }: OrderedQueryPanelProps) => {
+    const [listPrefix, setListPrefix] = useState<string>("");
+    const [limit, setLimit] = useState<number>(DEFAULT_LIMIT);
+    const [countPrefix, setCountPrefix] = useState<string>("");
+    const [index, setIndex] = useState<number>(0);
+    const [rankWord, setRankWord] = useState<string>("");
+    const [low, setLow] = useState<string>("");
+    const [high, setHigh] = useState<string>("");
+    const [text, setText] = useState<string>("");
+
+    const handleList = () => {
+        const prefix = listPrefix.trim();
+        onQuery(`first ${limit} "${prefix}"`, trie => recordIterate(trie, prefix, limit));
+    };
+
+    const handleCount = () => {
+        const prefix = countPrefix.trim();
+        onQuery(`count "${prefix}"`, trie => recordCount(trie, prefix));
+    };
+
+    const handleKth = () => {
+        onQuery(`word #${index}`, trie => recordKth(trie, index));
+    };
+
+    const handleRank = () => {
+        const word = rankWord.trim();
+        if (!word) return;
+        onQuery(`rank "${word}"`, trie => recordRank(trie, word));
+    };
+
+    const handleRange = () => {
+        const from = low.trim();
+        const to = high.trim();
+        onQuery(`range "${from}".."${to}"`, trie => recordRange(trie, from, to));
+    };
+
+    const handleLongestPrefix = () => {
+        const value = text.trim();
+        if (!value) return;
+        onQuery(`longest prefix of "${value}"`, trie => recordLongestPrefix(trie, value));
+    };
+
+    // Enter runs the query of the row it was typed in
+    const onEnter = (run: () => void) => (e: React.KeyboardEvent) => {
+        if (e.key === 'Enter') run();
+    };
+
+    return (
+        <details className="ordered-query-panel">
+            <summary>Ordered queries</summary>
+
+            <div className="ordered-query-row">
+                <label htmlFor="query-list-prefix">In order</label>
+                <input
+                    id="query-list-prefix"
+                    type="text"
+                    value={listPrefix}
+                    onChange={(e) => setListPrefix(e.target.value)}
+                    onKeyDown={onEnter(handleList)}
+                    placeholder="prefix, empty for all"
+                />
+                <input
+                    type="number"
+                    min={1}
+                    max={100}
+                    value={limit}
+                    onChange={(e) => setLimit(Math.max(1, Math.min(100, Number(e.target.value))))}
+                    aria-label="Words to list"
+                />
+                <button onClick={handleList}>List</button>
+            </div>
+
+            <div className="ordered-query-row">
+                <label htmlFor="query-count-prefix">Count</label>
+                <input
+                    id="query-count-prefix"
+                    type="text"
+                    value={countPrefix}
+                    onChange={(e) => setCountPrefix(e.target.value)}
+                    onKeyDown={onEnter(handleCount)}
+                    placeholder="prefix"
+                />
+                <button onClick={handleCount}>Count</button>
+            </div>
+
+            <div className="ordered-query-row">
+                <label htmlFor="query-index">Word at</label>
+                <input
+                    id="query-index"
+                    type="number"
+                    min={0}
+                    max={Math.max(0, wordCount - 1)}
+                    value={index}
+                    onChange={(e) => setIndex(Math.max(0, Math.floor(Number(e.target.value))))}
+                    onKeyDown={onEnter(handleKth)}
+                />
+                <button onClick={handleKth} disabled={wordCount === 0}>Find</button>
+            </div>
+
+            <div className="ordered-query-row">
+                <label htmlFor="query-rank">Index of</label>
+                <input
+                    id="query-rank"
+                    type="text"
+                    value={rankWord}
+                    onChange={(e) => setRankWord(e.target.value)}
+                    onKeyDown={onEnter(handleRank)}
+                    placeholder="word"
+                />
+                <button onClick={handleRank}>Rank</button>
+            </div>
+
+            <div className="ordered-query-row">
+                <label htmlFor="query-low">Between</label>
+                <input
+                    id="query-low"
+                    type="text"
+                    value={low}
+                    onChange={(e) => setLow(e.target.value)}
+                    onKeyDown={onEnter(handleRange)}
+                    placeholder="from"
+                />
+                <input
+                    type="text"
+                    value={high}
+                    onChange={(e) => setHigh(e.target.value)}
+                    onKeyDown={onEnter(handleRange)}
+                    placeholder="to"
+                    aria-label="Last word of the range"
+                />
+                <button onClick={handleRange}>List</button>
+            </div>
+
+            <div className="ordered-query-row">
+                <label htmlFor="query-text">Prefix of</label>
+                <input
+                    id="query-text"
+                    type="text"
+                    value={text}
+                    onChange={(e) => setText(e.target.value)}
+                    onKeyDown={onEnter(handleLongestPrefix)}
+                    placeholder="text"
+                />
+                <button onClick={handleLongestPrefix}>Find</button>
+            </div>
+
+            <button
+                className="ordered-query-common"
+                onClick={() => onQuery('common prefix', recordCommonPrefix)}
+                disabled={wordCount === 0}
+            >
+                Longest common prefix
+            </button>
+
+            <div className="ordered-query-hint">Indexes count from 0 in alphabetical order, ranges include both ends</div>
+        </details>
+    );
+};
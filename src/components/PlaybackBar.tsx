@@ -0,0 +1,82 @@
+import type { Playback } from "../hooks/usePlayback";
+import { describeOutcome, describeStep } from "../trie/operations";
+import './PlaybackBar.css';
+
+const SPEEDS = [0.25, 0.5, 1, 2, 4];
+
+type PlaybackBarProps = {
+    playback: Playback;
+};
+
+export const PlaybackBar = ({ playback }: PlaybackBarProps) => {
+    const { operation, position, playing, speed } = playback;
+    const totalSteps = operation?.steps.length ?? 0;
+
+    // describe the step that was applied last
+    let stepLabel = "No operation yet";
+    let announcement = "";
+    if (operation) {
+        stepLabel = position === 0
+            ? `${operation.type} "${operation.word}" ready`
+            : describeStep(operation.steps[position - 1]);
+        announcement = position === totalSteps ? `${stepLabel}, ${describeOutcome(operation)}` : stepLabel;
+    }
+
+    return (
+        <div className="playback-bar">
+            {/* screen readers hear every step as it is played */}
+            <div className="visually-hidden" aria-live="polite">{announcement}</div>
+
+            <div className="playback-buttons">
+                <button
+                    onClick={playback.stepBack}
+                    disabled={!operation || position === 0}
+                    title="Step back"
+                >
+                    ⏮
+                </button>
+                {playing ? (
+                    <button onClick={playback.pause} title="Pause">⏸</button>
+                ) : (
+                    <button onClick={playback.play} disabled={!operation} title="Play">▶</button>
+                )}
+                <button
+                    onClick={playback.stepForward}
+                    disabled={!operation || position === totalSteps}
+                    title="Step forward"
+                >
+                    ⏭
+                </button>
+            </div>
+
+            <input
+                className="playback-scrubber"
+                aria-label="Playback position"
+                type="range"
+                min={0}
+                max={totalSteps}
+                value={position}
+                disabled={!operation}
+                onChange={(e) => {
+                    playback.pause();
+                    playback.seek(Number(e.target.value));
+                }}
+            />
+
+            <span className="playback-step">
+                {operation ? `${position}/${totalSteps} · ` : ""}{stepLabel}
+            </span>
+
+            <select
+                className="playback-speed"
+                value={speed}
+                onChange={(e) => playback.setSpeed(Number(e.target.value))}
+                title="Playback speed"
+            >
+                {SPEEDS.map(value => (
+                    <option key={value} value={value}>{value}x</option>
+                ))}
+            </select>
+        </div>
+    );
+};
@@ -0,0 +1,94 @@
+import { useState } from "react";
+import type { ScanStep } from "../trie/AhoCorasick";
+import { StepControls } from "./StepControls";
+import './ScanPanel.css';
+
+const SCAN_STEP_DELAY = 600; // ms per key while playing
+
+type ScanPanelProps = {
+    text: string;             // as entered, the scan runs over its normalized keys
+    keys: string[];
+    steps: ScanStep[];        // one per key
+    position: number;         // keys read so far
+    showAllLinks: boolean;
+    onScan: (text: string) => void;
+    onPositionChange: (position: number) => void;
+    onShowAllLinksChange: (show: boolean) => void;
+};
+
+const describeScanStep = (step: ScanStep): string => {
+    const jumps = step.jumps.map(({ from, to }) => `"${from}" fails to ${to ? `"${to}"` : 'the root'}`);
+    const state = step.state ? `now at "${step.state}"` : 'back at the root';
+    return [`Read '${step.key}'`, ...jumps, state].join(', ');
+};
+
+// the text the dictionary is matched against, read one key at a time
+export const ScanPanel = ({
+    text, keys, steps, position, showAllLinks, onScan, onPositionChange, onShowAllLinksChange
+}: ScanPanelProps) => {
+    const [draft, setDraft] = useState<string>(text);
+
+    const current = position > 0 ? steps[position - 1] : null;
+    const found = steps.slice(0, position).flatMap(step => step.matches);
+
+    // keys inside a match found so far
+    const matched = new Set(found.flatMap(({ start, end }) => Array.from({ length: end - start }, (_, offset) => start + offset)));
+
+    return (
+        <div className="scan-panel">
+            <h3>Scan Text</h3>
+
+            <label htmlFor="scan-text" className="controls-label">Text:</label>
+            <textarea
+                id="scan-text"
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                rows={4}
+                placeholder="Paste a paragraph to look for the dictionary words in"
+            />
+            <button className="scan-start" onClick={() => onScan(draft)}>Scan with the dictionary</button>
+
+            <StepControls
+                position={position}
+                total={steps.length}
+                delay={SCAN_STEP_DELAY}
+                onPositionChange={onPositionChange}
+            />
+
+            <div className="scan-step" aria-live="polite">
+                {current ? describeScanStep(current) : 'At the root, nothing read yet'}
+            </div>
+
+            {/* the text with the key just read and every match so far */}
+            <div className="scan-text">
+                {keys.map((key, index) => (
+                    <span
+                        key={index}
+                        className={[
+                            index === position - 1 ? 'scan-current' : '',
+                            matched.has(index) ? 'scan-matched' : '',
+                        ].join(' ').trim() || undefined}
+                    >
+                        {key}
+                    </span>
+                ))}
+            </div>
+
+            <label className="scan-links-toggle">
+                <input type="checkbox" checked={showAllLinks} onChange={(e) => onShowAllLinksChange(e.target.checked)} />
+                Show every failure link
+            </label>
+
+            <div className="scan-matches">
+                <div className="scan-matches-title">Matches: {found.length}</div>
+                {found.map(({ word, start }, index) => (
+                    <span key={index} className="scan-match">
+                        {word}
+                        <span className="scan-match-position">@{start}</span>
+                    </span>
+                ))}
+            </div>
+            <div className="scan-hint">Positions count keys from 0, the full link view skips links back to the root</div>
+        </div>
+    );
+};
@@ -0,0 +1,59 @@
+import { useEffect, useState } from "react";
+import './StepControls.css';
+
+type StepControlsProps = {
+    position: number;  // steps taken so far
+    total: number;
+    delay: number;     // ms per step while playing
+    onPositionChange: (position: number) => void;
+};
+
+// play, pause and step buttons for walking through a precomputed list of steps
+export const StepControls = ({ position, total, delay, onPositionChange }: StepControlsProps) => {
+    const [playing, setPlaying] = useState<boolean>(false);
+
+    // one step per tick, stopping on the last one
+    useEffect(() => {
+        if (!playing) return;
+        const timer = setTimeout(() => {
+            onPositionChange(position + 1);
+            if (position + 1 >= total) setPlaying(false);
+        }, delay);
+        return () => clearTimeout(timer);
+    }, [playing, position, total, delay, onPositionChange]);
+
+    const handlePlay = () => {
+        // playing from the end starts over
+        if (position >= total) onPositionChange(0);
+        setPlaying(true);
+    };
+
+    const seek = (target: number) => {
+        setPlaying(false);
+        onPositionChange(Math.max(0, Math.min(target, total)));
+    };
+
+    return (
+        <div className="step-controls">
+            {/* same buttons as the playback bar; the scrubber jumps to any step */}
+            <button onClick={() => seek(position - 1)} disabled={position === 0} title="Step back">⏮</button>
+            {playing ? (
+                <button onClick={() => setPlaying(false)} title="Pause">⏸</button>
+            ) : (
+                <button onClick={handlePlay} disabled={total === 0} title="Play">▶</button>
+            )}
+            <button onClick={() => seek(position + 1)} disabled={position >= total} title="Step forward">⏭</button>
+            <input
+                className="step-controls-scrubber"
+                aria-label="Step position"
+                type="range"
+                min={0}
+                max={total}
+                value={position}
+                disabled={total === 0}
+                onChange={(e) => seek(Number(e.target.value))}
+            />
+            <span className="step-controls-position">{position} / {total}</span>
+        </div>
+    );
+};
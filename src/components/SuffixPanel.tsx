@@ -0,0 +1,76 @@
+import { useState } from "react";
+import type { SuffixTrie } from "../trie/SuffixTrie";
+import './SuffixPanel.css';
+
+export const MAX_SUFFIX_TEXT = 200; // keys, the suffix trie grows with the square of the text
+
+type SuffixPanelProps = {
+    suffixTrie: SuffixTrie;
+    query: string;
+    onQueryChange: (query: string) => void;
+    onBuild: (text: string) => void;
+};
+
+// the text behind the suffix trie, with the substring questions it answers
+export const SuffixPanel = ({ suffixTrie, query, onQueryChange, onBuild }: SuffixPanelProps) => {
+    const [draft, setDraft] = useState<string>(suffixTrie.text);
+
+    const trimmedQuery = query.trim();
+    const keys = suffixTrie.trie.keys(suffixTrie.text);
+    const queryLength = suffixTrie.trie.keys(trimmedQuery).length;
+    const positions = trimmedQuery ? suffixTrie.occurrences(trimmedQuery) : [];
+    const repeated = suffixTrie.longestRepeatedSubstring();
+
+    // keys covered by at least one occurrence, they may overlap
+    const covered = new Set(positions.flatMap(start => Array.from({ length: queryLength }, (_, offset) => start + offset)));
+
+    return (
+        <div className="suffix-panel">
+            <h3>Suffix Trie</h3>
+
+            <label htmlFor="suffix-text" className="controls-label">Text:</label>
+            <textarea
+                id="suffix-text"
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                rows={3}
+                placeholder="Paste a text, e.g. banana"
+            />
+            <button className="suffix-build" onClick={() => onBuild(draft)}>Build suffix trie</button>
+            <div className="suffix-hint">Up to {MAX_SUFFIX_TEXT} characters, every suffix becomes a word</div>
+
+            <label htmlFor="suffix-query" className="controls-label">Substring:</label>
+            <input
+                id="suffix-query"
+                type="text"
+                value={query}
+                onChange={(e) => onQueryChange(e.target.value)}
+                placeholder="e.g. ana"
+            />
+
+            {trimmedQuery && (
+                <div className="suffix-result">
+                    {positions.length > 0
+                        ? `"${suffixTrie.trie.normalize(trimmedQuery)}" occurs ${positions.length} ${positions.length === 1 ? 'time' : 'times'}, at ${positions.join(', ')}`
+                        : `"${suffixTrie.trie.normalize(trimmedQuery)}" does not occur in the text`}
+                </div>
+            )}
+
+            {/* the text with every occurrence marked */}
+            <div className="suffix-text">
+                {keys.map((key, index) => covered.has(index)
+                    ? <mark key={index}>{key}</mark>
+                    : <span key={index}>{key}</span>)}
+            </div>
+
+            <div className="suffix-repeated">
+                Longest repeated substring:{' '}
+                {repeated ? (
+                    <button onClick={() => onQueryChange(repeated)}>"{repeated}"</button>
+                ) : (
+                    <span className="suffix-none">none</span>
+                )}
+            </div>
+        </div>
+    );
+};
@@ -1,174 +1,412 @@
-import { useEffect, useState } from "react";
-import { Trie, TrieNode } from "../trie/Trie";
+import { useEffect, useMemo, useState } from "react";
+import { Trie, TrieNode, type FuzzyMatch } from "../trie/Trie";
+import { RadixNode, RadixTrie } from "../trie/RadixTrie";
+import {
+    radixRunner, recordDelete, recordInsert, recordRadixDelete, recordRadixInsert, recordRadixSearch,
+    recordMatch, recordSearch, trieRunner, type OperationType, type TrieOperation
+} from "../trie/operations";
+import { usePlayback } from "../hooks/usePlayback";
+import { useOperationQueue } from "../hooks/useOperationQueue";
+import { useTrieVersion } from "../hooks/useTrieVersion";
+import { decodeWordsHash, trieFromWords, TrieFormatError } from "../trie/serialization";
+import { CommandHistory, describeCommand, redoCommand, undoCommand, type TrieCommand } from "../trie/history";
+import { useViewport, type Bounds } from "../hooks/useViewport";
+import { useNodeTransitions } from "../hooks/useNodeTransitions";
+import { getLayout, LayoutMemo, LAYOUTS, type LayoutName, type Point } from "../layout/layouts";
+import { RenderCache } from "../layout/RenderCache";
+import { PlaybackBar } from "./PlaybackBar";
+import { Minimap } from "./Minimap";
+import { ImportExportPanel } from "./ImportExportPanel";
+import { NormalizationPanel } from "./NormalizationPanel";
+import { OperationQueuePanel } from "./OperationQueuePanel";
+import { NodeInspector } from "./NodeInspector";
+import { MetricsPanel } from "./MetricsPanel";
+import { BenchmarkPanel } from "./BenchmarkPanel";
+import { MAX_SUFFIX_TEXT, SuffixPanel } from "./SuffixPanel";
+import { SuffixTrie } from "../trie/SuffixTrie";
+import { AhoCorasick, type FailureLink, type ScanStep } from "../trie/AhoCorasick";
+import { ScanPanel } from "./ScanPanel";
+import { GridFormatError, parseGrid, solveGrid, type GridSolution, type LetterGrid } from "../trie/wordGrid";
+import { WordGridPanel } from "./WordGridPanel";
+import { DictionaryManager } from "./DictionaryManager";
+import { OrderedQueryPanel } from "./OrderedQueryPanel";
+import {
+    browserStorage, DictionaryStorageError, DictionaryStore, type DictionaryInfo
+} from "../trie/dictionaryStore";
+import { PALETTES, type ThemeName } from "./palettes";
+import { CanvasTreeView, type NodeStyle } from "./CanvasTreeView";
+import { sameNormalization, type NormalizationOptions, type Normalizer } from "../trie/normalization";
 import './Trie.css';
 
 
 type TrieNodeData = {
-    id: string;  // unique identifier like root -> a -> p -> p
+    id: number;  // stable id of the trie or radix node
+    prefix: string;  // full text from root down to this node
+    path: string[];  // keys from root down to this node
     char: string;  // the characters e.g. 'a', 'p'
     x: number;    // the x position
     y: number;    // the y position
     isEndOfWord: boolean;  // to render differently for active paths
-    children: string[];   // IDs of child nodes
+    children: number[];   // IDs of child nodes
+    edgeLabel?: string;   // multi-character label on the edge from the parent (radix mode)
+    collapsed?: boolean;  // children are hidden behind a badge
+    hiddenWords?: number; // words stored below a collapsed node
+    hiddenNodes?: number; // nodes below a collapsed node
+    version: number;      // shape version of the node's subtree, the layout reuses its placement while it holds
 }
 
-export const TrieVisualizer = () => {
+type Structure = 'trie' | 'radix' | 'suffix' | 'scan' | 'grid';
 
-    // state
-    const [trie] = useState(() => {
-        const newTrie = new Trie();
-
-        const starterWords = [
-            "gas", "garlic", "globe", "glow", "jane", "jazz",
-            "joke", "passive", "pale", "poke", "port"
-        ]
-        starterWords.forEach(word => newTrie.insert(word));
-        return newTrie;
-    });
+type FuzzyResult = {
+    query: string;
+    matches: FuzzyMatch[];
+    explored: Set<number>;  // node IDs that got a Levenshtein row
+    pruned: Set<number>;    // node IDs whose subtree was skipped
+};
 
-    const [inputWord, setInputWord] = useState<string>("");
-    const [prefixInput, setPrefixInput] = useState<string>("");
-    const [searchInput, setSearchInput] = useState<string>("");
-    const [deleteInput, setDeleteInput] = useState<string>("");
-    const [feedbackMessage, setFeedbackMessage] = useState<string | null>(null);
-    const [_countNodes, setCountNodes] = useState<number>(0); // we use this to trigger re - renders
+const AUTOCOMPLETE_LIMIT = 10;
+const DICTIONARY_LIMIT = 500;    // words listed in the sidebar, the count still covers all of them
+const CANVAS_THRESHOLD = 1500;   // nodes above which the tree is drawn on a canvas instead of svg
+
+// operations that branch out, every node they reach stays lit rather than only the current path
+const FAN_OUT_OPERATIONS: OperationType[] = ['match', 'iterate', 'range'];
+
+// shared so an unfocused view keeps the same path between renders
+const ROOT_PATH: string[] = [];
+const NO_NODES: TrieNodeData[] = [];
+
+// words and nodes below a node, not counting the node itself
+const countSubtree = (node: TrieNode | RadixNode): { words: number, nodes: number } => {
+    let words = 0;
+    let nodes = 0;
+    for (const child of node.children.values()) {
+        const below = countSubtree(child);
+        words += below.words + (child.isEndOfWord ? 1 : 0);
+        nodes += below.nodes + 1;
+    }
+    return { words, nodes };
+};
 
-    const [animatingPath, setAnimatingPath] = useState<string[]>([]); // node IDs being animated
-    const [activePath, setActivePath] = useState<string[]>([]);       // green path
-    const [_animationType, setAnimationType] = useState<'insert' | 'search' | 'delete' | null>(null);
+// whether path begins with every key of prefix
+const startsWithKeys = (path: string[], prefix: string[]): boolean => {
+    return prefix.length <= path.length && prefix.every((key, index) => path[index] === key);
+};
 
-    const [completeWords, setCompleteWords] = useState<Set<string>>(new Set(
-        [
-            "gas", "garlic", "globe", "glow", "jane", "jazz",
-            "joke", "passive", "pale", "poke", "port"
-        ]
-    ));
-    const [prefixMatches, setPrefixMatches] = useState<string[]>([]);
+// bounding box of the laid out nodes, looped since spreading huge arrays into Math.min overflows the stack
+const getBounds = (points: Point[]): Bounds => {
+    const bounds = { minX: Infinity, maxX: -Infinity, minY: Infinity, maxY: -Infinity };
+    points.forEach(({ x, y }) => {
+        bounds.minX = Math.min(bounds.minX, x);
+        bounds.maxX = Math.max(bounds.maxX, x);
+        bounds.minY = Math.min(bounds.minY, y);
+        bounds.maxY = Math.max(bounds.maxY, y);
+    });
+    return bounds;
+};
 
-    useEffect(() => {
-        if (activePath.length > 0) {
-            const timer = setTimeout(() => {
-                setActivePath([]);
-            }, 3000);
+// where each laid out node sits in the tree, for keyboard navigation and treeitem semantics
+type TreeIndex = {
+    byId: Map<number, TrieNodeData>;
+    parentOf: Map<number, TrieNodeData>;
+    levelOf: Map<number, number>;  // 1 for the node at the top
+};
 
-            return () => clearTimeout(timer);
-        }
-    }, [activePath]);
+const buildTreeIndex = (nodes: TrieNodeData[]): TreeIndex => {
+    const byId = new Map(nodes.map(node => [node.id, node]));
+    const parentOf = new Map<number, TrieNodeData>();
+    const levelOf = new Map<number, number>();
+
+    // nodes come in pre-order, so a parent is always seen before its children
+    nodes.forEach(node => {
+        const level = (levelOf.get(parentOf.get(node.id)?.id ?? -1) ?? 0) + 1;
+        levelOf.set(node.id, level);
+        node.children.forEach(childId => {
+            const child = byId.get(childId);
+            if (child) parentOf.set(child.id, node);
+        });
+    });
+    return { byId, parentOf, levelOf };
+};
 
-    useEffect(() => {
-        if (prefixInput.trim()) {
-            const matches = Array.from(completeWords).filter(word =>
-                word.startsWith(prefixInput.trim().toLowerCase())
-            );
-            setPrefixMatches(matches);
-        } else {
-            setPrefixMatches([]);
-        }
-    }, [prefixInput, completeWords]);
+// what a screen reader hears for a node
+const describeNode = (node: TrieNodeData): string => {
+    const parts = [node.prefix ? `"${node.prefix}"` : 'root'];
+    if (node.isEndOfWord) parts.push('end of word');
+    if (node.collapsed) {
+        parts.push(`collapsed, ${node.hiddenWords} words below`);
+    } else {
+        parts.push(`${node.children.length} ${node.children.length === 1 ? 'child' : 'children'}`);
+    }
+    return parts.join(', ');
+};
 
-    // trie operations to traverse and animate visualizer
-    const traverseTrie = (): TrieNodeData[] => {
+// fields with something in them keep ctrl+z for their own undo, a select is never left to the trie
+const isEditingText = (target: EventTarget | null): boolean => {
+    if (target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement) return target.value !== "";
+    if (target instanceof HTMLSelectElement) return true;
+    return target instanceof HTMLElement && target.isContentEditable && target.textContent !== "";
+};
 
-        const nodes: TrieNodeData[] = [];
-        const VERTICAL_SPACING = 80;
+// follow the system setting until the user picks a theme
+const prefersHighContrast = (): ThemeName => {
+    if (typeof window === 'undefined' || !window.matchMedia) return 'default';
+    return window.matchMedia('(prefers-contrast: more)').matches ? 'high-contrast' : 'default';
+};
 
-        // helper function to recursively traverse
-        const traverse = (node: TrieNode, char: string, path: string, depth: number) => {
-            // create unique id
-            const nodeId = path;
+// words and nodes below a collapsed node, trie nodes keep these counts up to date themselves
+const hiddenBelow = (node: TrieNode | RadixNode): { words: number, nodes: number } => {
+    if (node instanceof RadixNode) return countSubtree(node);
+    return { words: node.passCount - (node.isEndOfWord ? 1 : 0), nodes: node.subtreeSize - 1 };
+};
 
-            // store current index of where we are adding this node
-            const currIndex = nodes.length;
+// the flattened tree and the structure node behind each entry, in the same order
+type TreeShape = {
+    nodes: TrieNodeData[];
+    sources: (TrieNode | RadixNode)[];
+    bounds: Bounds;
+};
+
+// what one layout of one tree keeps between changes to its nodes, so subtrees that stayed the same are reused
+type LayoutState = {
+    layout: LayoutMemo;
+    flattened: Map<number, TrieNodeData>;  // by node id, before positions and marks are added
+};
 
-            // add node tonodes array
-            nodes.push({
-                id: nodeId,
-                char: char,
+// flatten the tree below the focused node in pre-order, stopping at collapsed nodes,
+// nodes whose subtree has not changed since the last time are taken from remembered as they were
+const buildTreeNodes = (
+    focusNode: TrieNode | RadixNode,
+    focusPath: string[],
+    collapsed: Set<string>,
+    normalizer: Normalizer,
+    remembered: Map<number, TrieNodeData>
+): { nodes: TrieNodeData[], sources: (TrieNode | RadixNode)[] } => {
+    const nodes: TrieNodeData[] = [];
+    const sources: (TrieNode | RadixNode)[] = [];
+
+    // helper function to recursively traverse
+    const traverse = (node: TrieNode | RadixNode, char: string, parentPath: string[], depth: number) => {
+        // radix nodes carry their characters on the incoming edge instead
+        const isRadixNode = node instanceof RadixNode;
+
+        // collapsed nodes stand in for their whole subtree
+        const isCollapsed = collapsed.has(node.prefix) && node.children.size > 0;
+
+        let data = remembered.get(node.id);
+        if (data?.version !== node.shapeVersion) {
+            // a trie node adds its one key to its parent's, radix nodes carry several keys on their edge
+            const path = depth === 0 ? focusPath : isRadixNode ? [...parentPath, ...normalizer.segment(char)] : [...parentPath, char];
+            data = {
+                id: node.id,
+                prefix: node.prefix,
+                path,
+                char: isRadixNode && depth > 0 ? '' : char,
                 x: 0,
-                y: depth * VERTICAL_SPACING,
-                isEndOfWord: node.isEndOfWord,
-                children: []
-            });
+                y: 0,
+                isEndOfWord: false,  // marks and hidden counts are filled in by withMarks
+                children: isCollapsed ? [] : [...node.children.values()].map(child => child.id),
+                edgeLabel: isRadixNode && depth > 0 ? char : undefined,
+                collapsed: isCollapsed,
+                version: node.shapeVersion
+            };
+            remembered.set(node.id, data);
+        }
 
-            // recursively traverse each child
-            for (const [childChar, childNode] of node.children) {
-                // build child path: current path, dash, child char
-                const childPath: string = path + '-' + childChar;
-                traverse(childNode, childChar, childPath, depth + 1);
+        // add node tonodes array
+        nodes.push(data);
+        sources.push(node);
 
-                // Access the current node correctly
-                nodes[currIndex].children.push(childPath)
-            }
+        if (isCollapsed) return;
+
+        // recursively traverse each child
+        for (const [childChar, childNode] of node.children) {
+            traverse(childNode, childNode instanceof RadixNode ? childNode.label : childChar, data.path, depth + 1);
         }
+    }
 
-        traverse(trie.getRoot(), 'root', 'root', 0);
-        return nodes;
-    };
+    // lay out from the focused node, which may carry a radix label
+    const focusLabel = focusNode instanceof RadixNode ? focusNode.label : focusPath[focusPath.length - 1];
+    traverse(focusNode, focusPath.length > 0 ? focusLabel : 'root', focusPath, 0);
+    return { nodes, sources };
+};
 
-    const calculatePositions = (nodes: TrieNodeData[]): TrieNodeData[] => {
-        const VERTICAL_SPACING = 80;
-        const HORIZONTAL_SPACING = 60;
+// copy the word marks and hidden counts as they are now onto a laid out node, reusing it when nothing changed
+const withMarks = (node: TrieNodeData, source: TrieNode | RadixNode): TrieNodeData => {
+    if (node.collapsed) {
+        const hidden = hiddenBelow(source);
+        if (node.isEndOfWord === source.isEndOfWord && node.hiddenWords === hidden.words && node.hiddenNodes === hidden.nodes) {
+            return node;
+        }
+        return { ...node, isEndOfWord: source.isEndOfWord, hiddenWords: hidden.words, hiddenNodes: hidden.nodes };
+    }
+    return node.isEndOfWord === source.isEndOfWord ? node : { ...node, isEndOfWord: source.isEndOfWord };
+};
 
-        // Create a map for quick lookup
-        const nodeMap = new Map<string, TrieNodeData>();
-        nodes.forEach(node => nodeMap.set(node.id, node));
+// case-insensitive, with one node per user-perceived character
+const VISUALIZER_NORMALIZATION: NormalizationOptions = {
+    caseFold: true,
+    form: 'NFC',
+    stripDiacritics: false,
+    segmentation: 'grapheme',
+};
 
-        // Calculate width needed for each subtree
-        const calculateWidth = (nodeId: string): number => {
-            const node = nodeMap.get(nodeId);
-            if (!node || node.children.length === 0) return 1;
+const STARTER_TEXT = "banana bandana";
+const STARTER_SCAN_TEXT = "a gas lamp glows on the globe while jane jokes about a pale port";
+// spells gas, glow, globe, joke and pale from the starter words
+const STARTER_GRID: LetterGrid = ["gasp", "loea", "obkl", "wjoe"].map(row => [...row]);
 
-            // width is sum of all children's widths
-            return node.children.reduce((sum, childId) => {
-                return sum + calculateWidth(childId);
-            }, 0);
-        };
+const STARTER_WORDS = [
+    "gas", "garlic", "globe", "glow", "jane", "jazz",
+    "joke", "passive", "pale", "poke", "port"
+];
 
-        // Position nodes recursively
-        const positionNode = (nodeId: string, x: number, depth: number): number => {
-            const node = nodeMap.get(nodeId);
-            if (!node) return x;
+const AUTOSAVE_DELAY = 300; // ms of quiet before the active dictionary is written out
 
-            node.y = depth * VERTICAL_SPACING + 50;
+type InitialState = {
+    trie: Trie;
+    message: string | null;
+    dictionaryId: string | null;  // null when nothing can be saved
+};
 
-            if (node.children.length === 0) {
-                node.x = x;
-                return x + HORIZONTAL_SPACING;
-            }
+// save a dictionary, returning what went wrong instead of throwing when storage is full
+const saveToStore = (store: DictionaryStore, id: string | null, trie: Trie): string | null => {
+    if (!id) return null;
+    try {
+        store.save(id, trie);
+        return null;
+    } catch (error) {
+        if (!(error instanceof DictionaryStorageError)) throw error;
+        return `Could not save the dictionary: ${error.message}`;
+    }
+};
 
-            // Position all children first
-            let childX = x;
-            const childPositions: number[] = [];
-            node.children.forEach(childId => {
-                const childNode = nodeMap.get(childId);
-                if (childNode) {
-                    childX = positionNode(childId, childX, depth + 1);
-                    childPositions.push(childNode.x);
-                }
-            });
+// keep a trie as a new dictionary and make it the active one
+const openAsDictionary = (store: DictionaryStore, name: string, trie: Trie, message: string | null): InitialState => {
+    try {
+        const info = store.create(name, trie);
+        store.setActive(info.id);
+        return { trie, message, dictionaryId: info.id };
+    } catch (error) {
+        if (!(error instanceof DictionaryStorageError)) throw error;
+        return { trie, message: `Dictionaries cannot be saved: ${error.message}`, dictionaryId: null };
+    }
+};
 
-            // position parent at center of children
-            if (childPositions.length > 0) {
-                node.x = (childPositions[0] + childPositions[childPositions.length - 1]) / 2;
-            }
+// a shared link opens as a new dictionary, otherwise the one used last comes back,
+// running this twice gives the same result since the link is dropped once it is saved
+const loadInitialTrie = (store: DictionaryStore): InitialState => {
+    let message: string | null = null;
+    try {
+        const shared = decodeWordsHash(window.location.hash);
+        if (shared) {
+            const loaded = openAsDictionary(
+                // links from before the normalization was shared were always made with the visualizer's own
+                store, 'Shared link', trieFromWords(shared.words, shared.normalization ?? VISUALIZER_NORMALIZATION),
+                `Loaded ${shared.words.length} words from the shared link`
+            );
+            window.history?.replaceState(null, '', window.location.pathname + window.location.search);
+            return loaded;
+        }
+    } catch (error) {
+        const reason = error instanceof TrieFormatError ? error.message : 'unreadable link';
+        message = `Could not load shared link: ${reason}`;
+    }
 
-            return childX;
-        };
+    const activeId = store.getActiveId();
+    try {
+        const stored = activeId ? store.load(activeId) : null;
+        if (activeId && stored) return { trie: stored, message, dictionaryId: activeId };
+    } catch (error) {
+        if (!(error instanceof TrieFormatError)) throw error;
+        // the broken dictionary stays in the manager, the starter words open next to it
+        message = `Could not read "${store.get(activeId!)?.name}": ${error.message}, opened the starter words instead`;
+    }
 
-        // Start positioning from root
-        positionNode('root', 0, 0);
-        // Calculate the total width of the tree
-        const minX = Math.min(...nodes.map(n => n.x));
-        const maxX = Math.max(...nodes.map(n => n.x));
-        const treeWidth = maxX - minX;
-
-        // Center the tree by offsetting all x positions
-        const centerOffset = -treeWidth / 2;
-        nodes.forEach(node => {
-            node.x += centerOffset;
-        });
+    // first visit, or the saved dictionary could not be read
+    return openAsDictionary(store, 'Starter words', trieFromWords(STARTER_WORDS, VISUALIZER_NORMALIZATION), message);
+};
+
+export const TrieVisualizer = () => {
+
+    // state
+    const [store] = useState(() => new DictionaryStore(browserStorage()));
+    const [initial] = useState(() => loadInitialTrie(store));
+    const [trie, setTrie] = useState<Trie>(initial.trie);
+    const [dictionaryId, setDictionaryId] = useState<string | null>(initial.dictionaryId);
+    const [dictionaries, setDictionaries] = useState<DictionaryInfo[]>(() => store.list());
 
-        return nodes;
+    const [inputWord, setInputWord] = useState<string>("");
+    const [prefixInput, setPrefixInput] = useState<string>("");
+    const [searchInput, setSearchInput] = useState<string>("");
+    const [deleteInput, setDeleteInput] = useState<string>("");
+    const [feedbackMessage, setFeedbackMessage] = useState<string | null>(initial.message);
+    const [structure, setStructure] = useState<Structure>('trie');
+    const [radix, setRadix] = useState(() => new RadixTrie(initial.trie.normalizer));
+    const [suffixTrie, setSuffixTrie] = useState(() => new SuffixTrie(STARTER_TEXT, initial.trie.normalizer.options));
+    const [suffixQuery, setSuffixQuery] = useState<string>("");
+    const [scanText, setScanText] = useState<string>(STARTER_SCAN_TEXT);
+    const [scanPosition, setScanPosition] = useState<number>(0);
+    const [showAllFailureLinks, setShowAllFailureLinks] = useState<boolean>(false);
+    const [scannerCache] = useState(() => new RenderCache<AhoCorasick>());
+    const [scanCache] = useState(() => new RenderCache<ScanStep[]>());
+    const [grid, setGrid] = useState<LetterGrid>(STARTER_GRID);
+    const [gridSolved, setGridSolved] = useState<boolean>(false);
+    const [gridPosition, setGridPosition] = useState<number>(0);
+    const [gridCache] = useState(() => new RenderCache<GridSolution>());
+    const [history] = useState(() => new CommandHistory<TrieCommand>());
+    const [fuzzyMode, setFuzzyMode] = useState<boolean>(false);
+    const [fuzzyDistance, setFuzzyDistance] = useState<number>(1);
+    const [fuzzyResult, setFuzzyResult] = useState<FuzzyResult | null>(null);
+    const [patternInput, setPatternInput] = useState<string>("");
+    const [patternResult, setPatternResult] = useState<{ pattern: string, words: string[] } | null>(null);
+    // collapsed nodes by prefix, so they stay collapsed when the structure is rebuilt
+    const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+    const [focusPath, setFocusPath] = useState<string[]>([]);
+    const [focusInput, setFocusInput] = useState<string>("");
+    const [selectedPrefix, setSelectedPrefix] = useState<string | null>(null);
+    const [selectionAnnouncement, setSelectionAnnouncement] = useState<string>("");
+    const [theme, setTheme] = useState<ThemeName>(prefersHighContrast);
+    const [treeIndexCache] = useState(() => new RenderCache<TreeIndex>());
+    const palette = PALETTES[theme];
+    const [layoutName, setLayoutName] = useState<LayoutName>('tidy');
+    const [layoutStateCache] = useState(() => new RenderCache<LayoutState>());
+    const [layoutCache] = useState(() => new RenderCache<TreeShape>());
+    const [marksCache] = useState(() => new RenderCache<TrieNodeData[]>());
+    const [dictionaryCache] = useState(() => new RenderCache<string[]>());
+
+    // the trie is mutated in place, so follow its changes instead of copying its words
+    const trieVersion = useTrieVersion(trie);
+    const dictionaryWords = dictionaryCache.get([trie, trieVersion], () => trie.words());
+
+    // scan mode runs a text through the dictionary, the automaton is rebuilt whenever the words change
+    const scanner = structure === 'scan' ? scannerCache.get([trie, trieVersion], () => new AhoCorasick(trie)) : null;
+    const scanSteps = scanner ? scanCache.get([scanner, scanText], () => scanner.scan(scanText)) : [];
+    const scanStep = scanPosition > 0 ? scanSteps[Math.min(scanPosition, scanSteps.length) - 1] ?? null : null;
+
+    // grid mode searches a letter grid for the dictionary's words, once asked to
+    const gridSolution = structure === 'grid' && gridSolved
+        ? gridCache.get([trie, trieVersion, grid], () => solveGrid(trie, grid))
+        : null;
+    const gridStep = gridSolution && gridPosition > 0
+        ? gridSolution.steps[Math.min(gridPosition, gridSolution.steps.length) - 1] ?? null
+        : null;
+
+    // the standard and radix views show the dictionary as it is edited
+    const isDictionaryMode = structure === 'trie' || structure === 'radix';
+
+    // suffix mode shows the suffix trie of a text instead of the dictionary
+    const viewedTrie = structure === 'suffix' ? suffixTrie.trie : trie;
+    const viewedVersion = structure === 'suffix' ? suffixTrie.trie.getVersion() : trieVersion;
+
+    // ranked completions straight from the trie
+    const trimmedPrefix = prefixInput.trim();
+    const prefixMatches = trimmedPrefix ? trie.autocomplete(trimmedPrefix, AUTOCOMPLETE_LIMIT) : [];
+
+    // the node focus mode re-roots the view at, falling back to root when it is gone
+    const getFocusRoot = (): { node: TrieNode | RadixNode, path: string[] } => {
+        const node = structure === 'radix' ? radix.findNode(focusPath.join('')) : viewedTrie.getNode(focusPath);
+        if (node) return { node, path: focusPath };
+        return { node: structure === 'radix' ? radix.getRoot() : viewedTrie.getRoot(), path: ROOT_PATH };
     };
 
     // event handlers
@@ -186,129 +424,199 @@ export const TrieVisualizer = () => {
 
     const handleSearchKeyPress = (e: React.KeyboardEvent) => {
         if (e.key === 'Enter') {
-            handleSearch("word");
+            handleSearch();
         }
     }
 
-    const handleInsert = (): void => {
-        if (!inputWord.trim()) {
-            setFeedbackMessage("Please enter a word to insert");
-            return;
+    const handlePatternKeyPress = (e: React.KeyboardEvent) => {
+        if (e.key === 'Enter') {
+            handlePatternSearch();
         }
+    };
 
-        const trimmedInput = inputWord.trim().toLowerCase();
+    // called once playback reaches the last recorded step
+    const handleOperationFinished = (operation: TrieOperation) => {
+        const { type, word, result } = operation;
 
-        if (completeWords.has(trimmedInput)) {
-            setFeedbackMessage(`"${trimmedInput}" already exists in the Trie!`);
-            setInputWord("");
-            return;
+        if (type === 'insert') {
+            if (result) {
+                setFeedbackMessage(`${word} has been inserted into the Trie!`);
+            } else {
+                setFeedbackMessage(`"${word}" already exists in the Trie, weight is now ${trie.getWeight(word)}`);
+            }
+        } else if (type === 'match') {
+            const words = trie.match(word);
+            setPatternResult({ pattern: word, words });
+            setFeedbackMessage(
+                result
+                    ? `${words.length} words match "${word}"`
+                    : `No words match "${word}"`
+            );
+        } else if (operation.query) {
+            setFeedbackMessage(operation.query.summary);
+        } else if (type === 'search') {
+            setFeedbackMessage(
+                result
+                    ? `"${word}" found in the Trie`
+                    : `"${word}" not found in the Trie`
+            );
+        } else if (result) {
+            setFeedbackMessage(`"${word}" successfully deleted from the Trie!`);
+        } else {
+            setFeedbackMessage(`"${word}" is not a complete word in the Trie!`);
         }
+    };
 
-        const path = buildPathForward(trimmedInput);
+    const runner = useMemo(
+        () => structure === 'radix' ? radixRunner(radix) : trieRunner(trie),
+        [structure, radix, trie]
+    );
+    const playback = usePlayback(runner, handleOperationFinished);
 
-        setActivePath([]);
+    // a paused operation holds up the queue as well, so its remaining steps are not skipped
+    const playbackBusy = playback.operation !== null && playback.position < playback.operation.steps.length;
+    const queue = useOperationQueue(playbackBusy);
 
-        setTimeout(() => {
-            // Animate insertion step by step
-            setAnimationType('insert');
-            setAnimatingPath([]);
+    // drop whatever is waiting and settle the running operation, before the trie is swapped out
+    const stopOperations = () => {
+        queue.clear();
+        playback.clear();
+    };
 
-            // trie.insert(trimmedInput);
+    const rebuildRadix = (source: Trie) => {
+        const next = new RadixTrie(source.normalizer);
+        source.words().forEach(word => next.insert(word));
+        setRadix(next);
+    };
 
-            path.forEach((nodeId, index) => {
-                setTimeout(() => {
-                    setAnimatingPath([nodeId]);
+    // make next the current trie and bring everything derived from it in line
+    const showTrie = (next: Trie) => {
+        setTrie(next);
+        setFuzzyResult(null);
+        setPatternResult(null);
+        if (structure === 'radix') rebuildRadix(next);
+        // the suffix trie keys its text with the same policy, so it follows every change of it
+        if (!sameNormalization(next.normalizer.options, suffixTrie.trie.normalizer.options)) {
+            setSuffixTrie(new SuffixTrie(suffixTrie.source, next.normalizer.options));
+        }
+    };
 
-                    // Actually insert up to this character
-                    if (index > 0) {
-                        const partialWord = trimmedInput.substring(0, index);
-                        trie.insert(partialWord);
-                        setCountNodes(prev => prev + 1);
-                    }
+    // the operations below wait in the queue, and record against the trie as it is once their turn comes
+    const queueInsert = (word: string) => {
+        // input made only of marks the normalization strips would store nothing
+        if (trie.keys(word).length === 0) {
+            setFeedbackMessage(`"${word}" has no characters left after normalization`);
+            return;
+        }
 
-                    //  build active path
-                    setActivePath(path.slice(0, index + 1));
+        queue.enqueue(`insert "${word}"`, () => {
+            setFuzzyResult(null);
+            setPatternResult(null);
+            playback.load(() => {
+                history.push({ type: 'insert', word, previousWeight: trie.getWeight(word) });
+                return structure === 'radix'
+                    ? recordRadixInsert(radix, word)
+                    : recordInsert(trie, word);
+            });
 
-                    // on last Character, complete the insertion
-                    if (index === path.length - 1) {
-                        trie.insert(trimmedInput);
+            // the standard trie keeps the weights, so in radix mode it is updated right away
+            if (structure === 'radix') trie.insert(word);
+        });
+    };
 
-                        // Mark this as a REAL complete word
-                        setCompleteWords(prev => new Set(prev).add(trimmedInput));
+    const queueSearch = (word: string) => {
+        queue.enqueue(`search "${word}"`, () => {
+            setFuzzyResult(null);
+            playback.load(() => structure === 'radix'
+                ? recordRadixSearch(radix, word)
+                : recordSearch(trie, word));
+        });
+    };
 
-                        setTimeout(() => {
-                            setAnimatingPath([]);
-                            setActivePath(path);
-                            // setCountNodes(prev => prev + 1);
-                            setFeedbackMessage(`${trimmedInput} has been inserted into the Trie!`);
-                        }, 500);
-                    }
-                }, index * 500);
+    const queueDelete = (word: string) => {
+        queue.enqueue(`delete "${word}"`, () => {
+            setFuzzyResult(null);
+            setPatternResult(null);
+            playback.load(() => {
+                const previousWeight = trie.getWeight(word);
+                if (previousWeight > 0) {
+                    history.push({ type: 'delete', word, previousWeight });
+                }
+                return structure === 'radix'
+                    ? recordRadixDelete(radix, word)
+                    : recordDelete(trie, word);
             });
-        }, 100);
 
+            if (structure === 'radix') trie.delete(word);
+        });
+    };
+
+    const queueQuery = (label: string, record: (trie: Trie) => TrieOperation) => {
+        queue.enqueue(label, () => {
+            setFuzzyResult(null);
+            setPatternResult(null);
+            playback.load(() => record(trie));
+        });
+    };
+
+    const handleInsert = (): void => {
+        if (!inputWord.trim()) {
+            setFeedbackMessage("Please enter a word to insert");
+            return;
+        }
+
+        queueInsert(inputWord.trim());
         setInputWord("");
     };
 
-    const handleSearch = (type: 'word' | 'prefix') => {
+    const handleSearch = () => {
         // handle empty input
         if (!searchInput.trim()) {
             setFeedbackMessage('Please enter a word to search');
             return;
         }
 
-        const trimmedInput = searchInput.trim().toLowerCase();
-
-        // clear previous animations
-        setActivePath([]);
-
-        setTimeout(() => {
-            setAnimationType('search');
-            setAnimatingPath([]);
-
-            const path = buildPathForward(trimmedInput);
-
-            path.forEach((nodeId, index) => {
-                setTimeout(() => {
-                    setAnimatingPath([nodeId]);
-                    //  on last character, show result
-                    if (index === path.length - 1) {
-                        setTimeout(() => {
-                            setAnimatingPath([]);
-
-                            let foundWord = false;
-
-                            if (type === 'word') {
-                                foundWord = trie.searchWord(trimmedInput);
-                                if (foundWord) {
-                                    setActivePath(path);
-                                }
-
-                                setFeedbackMessage(
-                                    foundWord
-                                        ? `"${trimmedInput}" found in the Trie`
-                                        : `"${trimmedInput}" not found in the Trie`
-                                );
-                            } else {
-                                foundWord = trie.startsWith(trimmedInput);
-                                if (foundWord) {
-                                    setActivePath(path);
-                                }
-
-                                setFeedbackMessage(
-                                    foundWord
-                                        ? `"${trimmedInput}" is a prefix in the Trie`
-                                        : `"${trimmedInput}" not a prefix in the Trie`
-                                );
-                            }
-                        }, 500);
-                    }
-                }, index * 300);
-            })
-        }, 100);
+        const trimmedInput = searchInput.trim();
+        if (fuzzyMode) {
+            queue.enqueue(`fuzzy search "${trimmedInput}"`, () => handleFuzzySearch(trimmedInput));
+        } else {
+            queueSearch(trimmedInput);
+        }
+        setSearchInput("");
+    };
 
+    const handleFuzzySearch = (query: string) => {
+        // finish any animation so the explored branches are not covered up
+        playback.clear();
 
-        setSearchInput("");
+        const explored = new Set<number>();
+        const pruned = new Set<number>();
+        const matches = trie.fuzzySearch(query, fuzzyDistance, (prefix, wasPruned) => {
+            const nodeId = nodeIdAt(trie.normalizer.segment(prefix));
+            if (nodeId !== undefined) (wasPruned ? pruned : explored).add(nodeId);
+        });
+
+        setFuzzyResult({ query: trie.normalize(query), matches, explored, pruned });
+        setFeedbackMessage(
+            matches.length > 0
+                ? `${matches.length} words within ${fuzzyDistance} edits of "${query}"`
+                : `No words within ${fuzzyDistance} edits of "${query}"`
+        );
+    };
+
+    const handlePatternSearch = () => {
+        if (!patternInput.trim()) {
+            setFeedbackMessage('Please enter a pattern such as "g?o*"');
+            return;
+        }
+
+        const pattern = patternInput.trim();
+        queue.enqueue(`match "${pattern}"`, () => {
+            setFuzzyResult(null);
+            setPatternResult(null);
+            playback.load(() => recordMatch(trie, pattern));
+        });
+        setPatternInput("");
     };
 
     const handleDelete = () => {
@@ -318,160 +626,598 @@ export const TrieVisualizer = () => {
             return;
         }
 
-        const trimmedInput = deleteInput.trim().toLowerCase();
+        queueDelete(deleteInput.trim());
+        setDeleteInput("");
+    };
+
+    const handleReset = () => {
+        stopOperations();
+
+        const emptyTrie = new Trie(trie.normalizer.options);
+        history.push({ type: 'replace', label: 'reset', before: trie, after: emptyTrie });
+        showTrie(emptyTrie);
+
+        setInputWord("");
+        setFeedbackMessage("Trie has been reset!");
+    };
 
-        // Check if it's actually a complete word we inserted
-        if (!completeWords.has(trimmedInput)) {
-            setFeedbackMessage(`"${trimmedInput}" is not a complete word in the Trie!`);
-            setInputWord("");
+    const handleUndo = () => {
+        stopOperations();
+
+        const command = history.undo();
+        if (!command) return;
+
+        showTrie(undoCommand(trie, command));
+        setFeedbackMessage(`Undid ${describeCommand(command)}`);
+    };
+
+    const handleRedo = () => {
+        stopOperations();
+
+        const command = history.redo();
+        if (!command) return;
+
+        showTrie(redoCommand(trie, command));
+        setFeedbackMessage(`Redid ${describeCommand(command)}`);
+    };
+
+    // Ctrl+Z / Ctrl+Shift+Z, unless the user is undoing typing in a filled input
+    useEffect(() => {
+        const handleShortcut = (e: KeyboardEvent) => {
+            if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return;
+            if (isEditingText(e.target)) return;
+
+            e.preventDefault();
+            if (e.shiftKey) {
+                handleRedo();
+            } else {
+                handleUndo();
+            }
+        };
+
+        window.addEventListener('keydown', handleShortcut);
+        return () => window.removeEventListener('keydown', handleShortcut);
+    });
+
+    const handleStructureChange = (next: Structure) => {
+        if (next === structure) return;
+
+        // finish the running operation on the structure it belongs to, queued ones were meant for it too
+        stopOperations();
+
+        // the radix trie is rebuilt from the standard trie's words
+        if (next === 'radix') rebuildRadix(trie);
+
+        // node paths of one trie mean nothing in the other
+        if (next === 'suffix' || structure === 'suffix') {
+            setFocusPath([]);
+            setSelectedPrefix(null);
+        }
+
+        setStructure(next);
+    };
+
+    const handleBuildSuffixTrie = (text: string) => {
+        const length = trie.normalizer.segment(text.trim()).length;
+        if (length === 0) {
+            setFeedbackMessage("Please enter a text to build the suffix trie from");
+            return;
+        }
+        if (length > MAX_SUFFIX_TEXT) {
+            setFeedbackMessage(`The text has ${length} characters, the suffix trie takes at most ${MAX_SUFFIX_TEXT}`);
             return;
         }
 
-        const path = buildPathForward(trimmedInput);
-
-        // clear previous animations
-        setActivePath([]);
-
-        setTimeout(() => {
-            setAnimationType('delete');
-            setAnimatingPath([]);
-
-            path.forEach((nodeId, index) => {
-                setTimeout(() => {
-                    setAnimatingPath([nodeId]);
-
-
-                    // on last character, perform deletion
-                    if (index === path.length - 1) {
-                        setTimeout(() => {
-                            // determine which nodes will actually be deleted
-                            const nodesToDelete: string[] = [];
-
-                            // setAnimatingPath([]);
-
-
-                            // delete all partial words first
-                            for (let i = trimmedInput.length; i >= 1; i--) {
-                                const partial = trimmedInput.substring(0, i);
-
-                                // check if this partial is needed by other words
-                                let isNeededPrefix = false;
-                                for (const word of completeWords) {
-                                    if (word !== trimmedInput && word.startsWith(partial)) {
-                                        isNeededPrefix = true;
-                                        break;
-                                    }
-                                }
-
-
-                                if (!isNeededPrefix) {
-                                    const nodeId = 'root-' + partial.split('').join('-');
-                                    nodesToDelete.push(nodeId);
-                                    // trie.delete(partial);
-                                } else {
-                                    break;
-                                }
-                            }
-
-                            // Animate deletion from bottom to top (reverse order)
-                            nodesToDelete.forEach((nodeId, deleteIndex) => {
-                                setTimeout(() => {
-                                    setAnimatingPath([nodeId]);
-
-                                    // After showing red, actually delete
-                                    setTimeout(() => {
-                                        const charCount = (nodeId.match(/-/g) || []).length;
-                                        const partial = trimmedInput.substring(0, charCount);
-                                        trie.delete(partial);
-
-                                        setCountNodes(prev => prev - 1);
-
-                                        // On last deletion
-                                        if (deleteIndex === nodesToDelete.length - 1) {
-                                            setAnimatingPath([]);
-
-                                            // remove from completeWords
-                                            setCompleteWords(prev => {
-                                                const newSet = new Set(prev);
-                                                newSet.delete(trimmedInput);
-                                                return newSet;
-                                            });
-
-                                            setFeedbackMessage(`"${trimmedInput}" successfully deleted from the Trie!`);
-                                        }
-                                    }, 300);
-                                }, deleteIndex * 400);
-                            });
-                        }, 500);
-                    }
-                }, index * 300);
-            });
-        }, 100);
+        const built = new SuffixTrie(text.trim(), trie.normalizer.options);
+        setSuffixTrie(built);
+        setFocusPath([]);
+        setSelectedPrefix(null);
+        viewport.fit();
+        setFeedbackMessage(`Built a suffix trie with ${built.trie.statistics().nodes} nodes from ${length} characters`);
+    };
 
-        setDeleteInput("");
+    const handleScanText = (text: string) => {
+        if (!text.trim()) {
+            setFeedbackMessage("Please enter a text to scan");
+            return;
+        }
+
+        setScanText(text);
+        setScanPosition(0);
+        setFeedbackMessage(
+            trie.wordCount() === 0
+                ? "The dictionary is empty, add some words to look for"
+                : `Step through the text to find the ${trie.wordCount()} dictionary words in it`
+        );
     };
 
-    const handleReset = () => {
-        const allWords = Array.from(completeWords);
-        allWords.forEach(word => {
-            trie.delete(word);
+    const handleGridChange = (next: LetterGrid) => {
+        setGrid(next);
+        setGridSolved(false);
+        setGridPosition(0);
+    };
+
+    const handleEnterGrid = (text: string) => {
+        try {
+            handleGridChange(parseGrid(text, trie));
+        } catch (error) {
+            if (!(error instanceof GridFormatError)) throw error;
+            setFeedbackMessage(`That grid does not work: ${error.message}`);
+        }
+    };
+
+    const handleSolveGrid = () => {
+        const solution = gridCache.get([trie, trieVersion, grid], () => solveGrid(trie, grid));
+        setGridSolved(true);
+        setGridPosition(0);
+        setFeedbackMessage(
+            `${solution.words.length} words worth ${solution.score} points, `
+            + `the prefix check pruned ${solution.pruned} branches and followed ${solution.explored}`
+        );
+    };
+
+    // swap in a trie that was imported from a file
+    const handleImport = (imported: Trie, message: string) => {
+        stopOperations();
+        history.push({ type: 'replace', label: 'import', before: trie, after: imported });
+        showTrie(imported);
+        setFeedbackMessage(message);
+    };
+
+    // rebuild the trie from its words under a new key policy, words may merge along the way
+    const handleNormalizationChange = (options: NormalizationOptions) => {
+        stopOperations();
+
+        const rebuilt = trieFromWords(trie.autocomplete('', Infinity), options);
+        history.push({ type: 'replace', label: 'normalization change', before: trie, after: rebuilt });
+        showTrie(rebuilt);
+        setCollapsed(new Set());
+        setFocusPath([]);
+        setFeedbackMessage(`Keys are now built with ${rebuilt.normalizer.describe()}`);
+    };
+
+    // write the active dictionary out now, finishing the running operation so none of its steps are missing
+    const saveDictionary = () => {
+        playback.clear();
+        const failure = saveToStore(store, dictionaryId, trie);
+        if (failure) setFeedbackMessage(failure);
+    };
+
+    // autosave once the trie settles after a change, and before the page goes away,
+    // an operation still playing has only done part of its steps so it is waited for
+    const settlePlayback = playback.clear;
+    useEffect(() => {
+        const save = () => {
+            const failure = saveToStore(store, dictionaryId, trie);
+            if (failure) setFeedbackMessage(failure);
+        };
+        // there is no waiting once the page goes away, so the rest of the steps go in at once
+        const saveOnLeave = () => {
+            settlePlayback();
+            save();
+        };
+        const timer = playbackBusy ? undefined : setTimeout(save, AUTOSAVE_DELAY);
+        window.addEventListener('pagehide', saveOnLeave);
+        return () => {
+            clearTimeout(timer);
+            window.removeEventListener('pagehide', saveOnLeave);
+        };
+    }, [store, dictionaryId, trie, trieVersion, playbackBusy, settlePlayback]);
+
+    // a dictionary change is a fresh start, its undo history belonged to the other trie
+    const openDictionary = (id: string, next: Trie) => {
+        history.clear();
+        showTrie(next);
+        setDictionaryId(id);
+        store.setActive(id);
+        setDictionaries(store.list());
+        setCollapsed(new Set());
+        setFocusPath([]);
+        setSelectedPrefix(null);
+    };
+
+    // the dictionary manager below runs its changes through the store, failures end up in the feedback
+    const withStore = (change: () => void) => {
+        try {
+            change();
+        } catch (error) {
+            if (error instanceof DictionaryStorageError) {
+                setFeedbackMessage(`Could not save the dictionary: ${error.message}`);
+            } else if (error instanceof TrieFormatError) {
+                setFeedbackMessage(`Could not read the dictionary: ${error.message}`);
+            } else {
+                throw error;
+            }
+        }
+        setDictionaries(store.list());
+    };
+
+    // a stored dictionary, or null once the feedback says why it could not be opened
+    const loadDictionary = (id: string): Trie | null => {
+        try {
+            const loaded = store.load(id);
+            if (!loaded) setFeedbackMessage(`"${store.get(id)?.name}" is missing from the browser storage`);
+            return loaded;
+        } catch (error) {
+            if (!(error instanceof TrieFormatError)) throw error;
+            setFeedbackMessage(`Could not read "${store.get(id)?.name}": ${error.message}`);
+            return null;
+        }
+    };
+
+    const handleSwitchDictionary = (id: string) => {
+        if (id === dictionaryId) return;
+        stopOperations();
+        saveDictionary();
+
+        const next = loadDictionary(id);
+        if (!next) return;
+        openDictionary(id, next);
+        setFeedbackMessage(`Switched to "${store.get(id)?.name}"`);
+    };
+
+    const handleCreateDictionary = (name: string) => {
+        withStore(() => {
+            stopOperations();
+            saveDictionary();
+
+            const empty = new Trie(trie.normalizer.options);
+            const info = store.create(name, empty);
+            openDictionary(info.id, empty);
+            setFeedbackMessage(`Created "${info.name}"`);
         });
+    };
 
-        setCompleteWords(new Set());
-        setActivePath([]);
-        setAnimatingPath([]);
-        setInputWord("");
-        setCountNodes(0);
-        setFeedbackMessage("Trie has been reset!");
+    const handleRenameDictionary = (id: string, name: string) => {
+        withStore(() => store.rename(id, name));
     };
 
-    const buildPathForward = (word: string): string[] => {
-        const path: string[] = ['root'];
-        let currentPath = 'root';
+    const handleDuplicateDictionary = (id: string) => {
+        withStore(() => {
+            // the copy should include edits that are still waiting for autosave
+            if (id === dictionaryId) saveDictionary();
+            const copy = store.duplicate(id);
+            if (copy) setFeedbackMessage(`Copied to "${copy.name}"`);
+        });
+    };
 
-        for (const char of word.toLowerCase()) {
-            currentPath = currentPath + '-' + char;
-            path.push(currentPath);
+    const handleDeleteDictionary = (id: string) => {
+        withStore(() => {
+            const name = store.get(id)?.name;
+            store.remove(id);
+            setFeedbackMessage(`Deleted "${name}"`);
+            if (id !== dictionaryId) return;
+
+            // the trie on screen needs somewhere to be saved, so fall back to another dictionary
+            stopOperations();
+            const fallback = store.list()[0];
+            const next = fallback ? loadDictionary(fallback.id) : null;
+            if (fallback && next) {
+                openDictionary(fallback.id, next);
+            } else {
+                const empty = new Trie(trie.normalizer.options);
+                openDictionary(store.create('Untitled', empty).id, empty);
+            }
+        });
+    };
+
+    const toggleCollapsed = (prefix: string) => {
+        setCollapsed(prev => {
+            const next = new Set(prev);
+            if (next.has(prefix)) {
+                next.delete(prefix);
+            } else {
+                next.add(prefix);
+            }
+            return next;
+        });
+    };
+
+    // clicking the selected node again closes the inspector
+    const handleSelect = (node: TrieNodeData) => {
+        setSelectedPrefix(prev => prev === node.prefix ? null : node.prefix);
+    };
+
+    // a click folds or unfolds the subtree, shift or alt click opens the node in the inspector
+    const handleNodeClick = (node: TrieNodeData, e: React.MouseEvent) => {
+        if (e.shiftKey || e.altKey) {
+            handleSelect(node);
+            return;
         }
+        if (node.children.length === 0 && !node.collapsed) return;
+        toggleCollapsed(node.prefix);
+    };
 
-        return path;
+    // arrow keys move the selection along the tree, in the directions the layout draws it
+    const handleTreeKeyDown = (e: React.KeyboardEvent<Element>) => {
+        if (layoutNodes.length === 0) return;
+
+        const top = layoutNodes[0];
+        const current = selectedId === undefined ? undefined : treeIndex.byId.get(selectedId);
+
+        if (current && (e.key === 'Enter' || e.key === ' ')) {
+            e.preventDefault();
+            if (current.children.length === 0 && !current.collapsed) return;
+            toggleCollapsed(current.prefix);
+            setSelectionAnnouncement(current.collapsed ? 'expanded' : 'collapsed');
+            return;
+        }
+        if (e.key === 'Escape') {
+            setSelectedPrefix(null);
+            return;
+        }
+
+        const horizontal = layoutName === 'horizontal';
+        const parent = current && treeIndex.parentOf.get(current.id);
+        const siblings = parent?.children ?? [];
+        const index = current ? siblings.indexOf(current.id) : -1;
+        const moves: Record<string, number | undefined> = {
+            [horizontal ? 'ArrowLeft' : 'ArrowUp']: parent?.id,
+            [horizontal ? 'ArrowRight' : 'ArrowDown']: current?.children[0],
+            [horizontal ? 'ArrowUp' : 'ArrowLeft']: index > 0 ? siblings[index - 1] : undefined,
+            [horizontal ? 'ArrowDown' : 'ArrowRight']: index >= 0 ? siblings[index + 1] : undefined,
+            Home: top.id,
+        };
+        if (!(e.key in moves)) return;
+        e.preventDefault();
+
+        // the first key press only picks the top node
+        const targetId = current ? moves[e.key] : top.id;
+        const target = targetId === undefined ? undefined : treeIndex.byId.get(targetId);
+        if (!target) return;
+
+        setSelectedPrefix(target.prefix);
+        setSelectionAnnouncement(describeNode(target));
+        viewport.follow(target.x, target.y);
+        e.currentTarget.querySelector<SVGGElement>(`[data-node-id="${target.id}"]`)?.focus();
     };
 
-    const renderTrie = () => {
-        let nodes = calculatePositions(traverseTrie());
+    // the transition layer moves every node over to its place in the new layout
+    const handleLayoutChange = (next: LayoutName) => {
+        setLayoutName(next);
+        viewport.fit();
+    };
+
+    const handleFocus = (path: string[]) => {
+        setFocusPath(path);
+        viewport.fit();
+    };
+
+    const handleFocusPrefix = () => {
+        const prefix = trie.normalize(focusInput.trim());
+        const node = structure === 'radix' ? radix.findNode(prefix) : viewedTrie.getNode(prefix);
+
+        if (!node) {
+            setFeedbackMessage(`There is no node for "${prefix}" to focus on`);
+            return;
+        }
+
+        handleFocus(trie.normalizer.segment(prefix));
+        setFocusInput("");
+    };
+
+    // id of the node at a key path in the structure on screen, if it is there
+    const nodeIdAt = (path: string[]): number | undefined => {
+        const node = structure === 'radix' ? radix.findNode(path.join('')) : viewedTrie.getNode(path);
+        return node?.id;
+    };
+
+    // ids of the nodes along each path, skipping nodes that are gone
+    const nodeIdsAlong = (paths: string[][]): number[] => {
+        return paths.map(nodeIdAt).filter((id): id is number => id !== undefined);
+    };
+
+    // derive the highlighted nodes from the playback position
+    const getHighlights = (): { animatingPath: number[], activePath: number[] } => {
+        // the scan and the grid search sit on one node, with the path that spells it lit
+        if (structure === 'scan' || structure === 'grid') {
+            const walked = structure === 'scan' ? scanStep?.state : gridStep?.prefix;
+            if (walked === undefined) return { animatingPath: [], activePath: [] };
+
+            let keys = trie.normalizer.segment(walked);
+            // a pruned letter has no node, the search stopped on its parent
+            if (gridStep?.kind === 'prune') keys = keys.slice(0, -1);
+            return {
+                animatingPath: nodeIdsAlong([keys]),
+                activePath: nodeIdsAlong(keys.map((_, index) => keys.slice(0, index)))
+            };
+        }
+
+        const { operation, position } = playback;
+        if (!operation || position === 0) return { animatingPath: [], activePath: [] };
+
+        const appliedSteps = operation.steps.slice(0, position);
+        const walked = appliedSteps.filter(step => ['visit', 'create', 'split'].includes(step.kind));
+
+        if (position === operation.steps.length) {
+            // a finished pattern search or query lights up the words it found
+            const found = operation.type === 'match' ? patternResult?.words ?? [] : operation.query?.words;
+            if (found) {
+                return {
+                    animatingPath: [],
+                    activePath: found.flatMap(word => {
+                        const keys = trie.normalizer.segment(word);
+                        return nodeIdsAlong(keys.map((_, index) => keys.slice(0, index + 1)));
+                    })
+                };
+            }
 
-        if (nodes.length === 0) return null;
+            // keep the finished path lit for successful inserts, searches and queries
+            const showPath = operation.result && operation.type !== 'delete';
+            return {
+                animatingPath: [],
+                activePath: showPath ? nodeIdsAlong(walked.map(step => step.path)) : []
+            };
+        }
 
-        // calculate bounding box
-        const minX = Math.min(...nodes.map(n => n.x));
-        const maxX = Math.max(...nodes.map(n => n.x));
-        const minY = Math.min(...nodes.map(n => n.y));
-        const maxY = Math.max(...nodes.map(n => n.y));
+        const lastStep = appliedSteps[appliedSteps.length - 1];
+        // pruned and merged nodes are gone, so only the walk above them stays lit
+        const isGone = lastStep.kind === 'prune' || lastStep.kind === 'merge';
+        const remainingDepth = isGone ? lastStep.path.length - 1 : lastStep.path.length;
+
+        return {
+            animatingPath: isGone ? [] : nodeIdsAlong([lastStep.path]),
+            // pattern searches and ordered listings keep every branch they fanned out to
+            activePath: nodeIdsAlong(walked
+                .filter(step => FAN_OUT_OPERATIONS.includes(operation.type) || step.path.length <= remainingDepth)
+                .map(step => step.path))
+        };
+    };
 
-        const width = maxX - minX + 100; // +100 for padding
-        const height = maxY - minY + 100;
+    // colours for a node, highlighted when something other than ending a word decides them
+    const getNodeStyle = (node: TrieNodeData): { style: NodeStyle, highlighted: boolean } => {
+        // Determine node color based on state
+        let fillColor = palette.plain.fill;
+        let strokeColor = palette.plain.stroke;
+        let textColor = palette.plain.text;
+        let strokeWidth = palette.plain.strokeWidth;
+        let highlighted = true;
+
+        const inPrefixWalk = isInPrefixWalk(node);
+        if (animatingIds.has(node.id)) {
+            fillColor = palette.animating.fill; // currently animating
+            textColor = palette.animating.text;
+        } else if (activeIds.has(node.id)) {
+            fillColor = palette.active.fill;
+            textColor = palette.active.text;
+        } else if (node.isEndOfWord) {
+            fillColor = palette.word.fill;
+            strokeWidth = palette.word.strokeWidth;
+            textColor = palette.word.text;
+            highlighted = inPrefixWalk;
+        } else if (inPrefixWalk) {
+            fillColor = palette.prefix.fill;
+        } else {
+            highlighted = false;
+        }
 
-        // SVG dimensions
-        const svgWidth = Math.max(width, 800);
-        const svgHeight = Math.max(height, 600);
+        if (inPrefixWalk) {
+            strokeColor = palette.prefix.stroke;
+        }
 
-        // center offset
+        // fuzzy search: explored rows, pruned subtrees and never reached nodes
+        let dashed = false;
+        let opacity = 1;
+        if (fuzzyResult) {
+            highlighted = true;
+            if (fuzzyMatchIds.has(node.id)) {
+                fillColor = palette.fuzzyMatch.fill;
+                textColor = palette.fuzzyMatch.text;
+            }
+            if (fuzzyResult.explored.has(node.id)) {
+                strokeColor = palette.explored;
+            } else if (fuzzyResult.pruned.has(node.id)) {
+                strokeColor = palette.pruned;
+                dashed = true;
+            } else {
+                opacity = 0.3;
+            }
+        }
 
-        // Center offset
-        const offsetX = (svgWidth - (maxX - minX)) / 2 - minX;
-        const offsetY = -minY + 50;
+        // the grid search gave up on a letter below this node
+        if (gridStep?.kind === 'prune' && animatingIds.has(node.id)) {
+            highlighted = true;
+            strokeColor = palette.pruned;
+            dashed = true;
+        }
+
+        // words the scan matched on the key it just read, or the grid search just found
+        if (wordMatchIds.has(node.id)) {
+            highlighted = true;
+            fillColor = palette.fuzzyMatch.fill;
+            textColor = palette.fuzzyMatch.text;
+        }
+
+        return {
+            style: { fill: fillColor, stroke: strokeColor, text: textColor, strokeWidth, dashed, opacity },
+            highlighted
+        };
+    };
+
+    // a dashed arc from a node to where its failure link sends the automaton
+    const renderFailureLink = (link: FailureLink, byPrefix: Map<string, TrieNodeData>, followed: boolean) => {
+        const from = byPrefix.get(link.from);
+        const to = byPrefix.get(link.to);
+        if (!from || !to) return null;
+
+        // bend the arc sideways so it does not run along the tree edges
+        const bend = 0.25;
+        const controlX = (from.x + to.x) / 2 - (to.y - from.y) * bend;
+        const controlY = (from.y + to.y) / 2 + (to.x - from.x) * bend;
+
+        // stop at the rim of the target so the arrow head shows
+        const length = Math.hypot(to.x - controlX, to.y - controlY) || 1;
+        const endX = to.x - (to.x - controlX) / length * 22;
+        const endY = to.y - (to.y - controlY) / length * 22;
+
+        return (
+            <path
+                key={`failure-${followed ? 'followed' : 'all'}-${link.from}`}
+                className="failure-link"
+                d={`M ${from.x} ${from.y} Q ${controlX} ${controlY} ${endX} ${endY}`}
+                fill="none"
+                stroke={palette.failureLink}
+                strokeWidth={followed ? 2.5 : 1.5}
+                strokeDasharray="6 4"
+                opacity={followed ? 1 : 0.4}
+                markerEnd={followed ? 'url(#failure-arrow)' : undefined}
+            />
+        );
+    };
+
+    const renderTrie = () => {
+        if (layoutNodes.length === 0) return null;
+
+        // svg would need several elements per node, so big trees go to the canvas
+        if (useCanvas) {
+            const highlights = layoutNodes
+                .map(node => ({ node, ...getNodeStyle(node) }))
+                .filter(({ highlighted }) => highlighted);
+
+            return (
+                <CanvasTreeView
+                    nodes={layoutNodes}
+                    transform={viewport.transform}
+                    size={viewport.size}
+                    highlights={highlights}
+                    selectedId={selectedId}
+                    palette={palette}
+                    onKeyDown={handleTreeKeyDown}
+                    onNodeClick={handleNodeClick}
+                    onNodeDoubleClick={(node) => handleFocus(node.path)}
+                />
+            );
+        }
+
+        // nodes where the transition layer has them this frame
+        const frames = new Map(layoutNodes.map(node => [node.id, transitions.frameOf(node)]));
+        const nodes = layoutNodes.map(node => ({ ...node, x: frames.get(node.id)!.x, y: frames.get(node.id)!.y }));
+        const { x, y, scale } = viewport.transform;
 
         // create a map for quick lookup
-        const nodeMap = new Map<string, TrieNodeData>();
+        const nodeMap = new Map<number, TrieNodeData>();
         nodes.forEach(node => nodeMap.set(node.id, node));
 
+        // failure links name their ends by prefix
+        const nodeByPrefix = structure === 'scan' ? new Map(nodes.map(node => [node.prefix, node])) : null;
+
         return (
             <svg
-                width={svgWidth}
-                height={svgHeight}
+                width="100%"
+                height="100%"
                 style={{ display: 'block' }}
+                role="tree"
+                aria-label="Trie nodes, use the arrow keys to move between them"
+                onKeyDown={handleTreeKeyDown}
             >
-                <g transform={`translate(${offsetX}, ${offsetY})`}>
+                {structure === 'scan' && (
+                    <defs>
+                        <marker id="failure-arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+                            <path d="M 0 0 L 10 5 L 0 10 z" fill={palette.failureLink} />
+                        </marker>
+                    </defs>
+                )}
+                <g transform={`translate(${x}, ${y}) scale(${scale})`}>
                     {/* Render edges (lines) first so they appear behind nodes */}
                     {nodes.map(node =>
                         node.children.map(childId => {
@@ -486,48 +1232,107 @@ export const TrieVisualizer = () => {
                                     y1={node.y}
                                     x2={child.x}
                                     y2={child.y}
-                                    stroke="#004100"
+                                    stroke={palette.edge}
                                     strokeWidth="1.5"
                                 />
                             );
                         })
                     )}
 
+                    {/* failure links of the scan, every one faintly and the ones just followed in full */}
+                    {nodeByPrefix && (
+                        <>
+                            {showAllFailureLinks && scanner?.failureLinks().map(link => renderFailureLink(link, nodeByPrefix, false))}
+                            {scanStep?.jumps.map(link => renderFailureLink(link, nodeByPrefix, true))}
+                        </>
+                    )}
+
+                    {/* pruned nodes fade and shrink into what is left of their parent */}
+                    {transitions.exiting.map(({ node, frame, target }) => (
+                        <g key={`exit-${node.id}`} className="trie-node-exit" opacity={frame.opacity}>
+                            <line x1={target.x} y1={target.y} x2={frame.x} y2={frame.y} stroke={palette.edge} strokeWidth="1.5" />
+                            <circle
+                                cx={frame.x}
+                                cy={frame.y}
+                                r={20 * frame.scale}
+                                fill={palette.plain.fill}
+                                stroke={palette.plain.stroke}
+                                strokeWidth={palette.plain.strokeWidth}
+                            />
+                            {frame.scale > 0.5 && (
+                                <text x={frame.x} y={frame.y + 5} textAnchor="middle" fontSize="14" fontWeight="bold" fill={palette.plain.text}>
+                                    {node.char}
+                                </text>
+                            )}
+                        </g>
+                    ))}
+
+                    {/* Render radix edge labels halfway along each edge */}
+                    {nodes.map(node =>
+                        node.children.map(childId => {
+                            const child = nodeMap.get(childId);
+
+                            if (!child?.edgeLabel) return null;
+
+                            return (
+                                <text
+                                    key={`label-${childId}`}
+                                    className="edge-label"
+                                    x={(node.x + child.x) / 2}
+                                    y={(node.y + child.y) / 2 + 4}
+                                    textAnchor="middle"
+                                >
+                                    {child.edgeLabel}
+                                </text>
+                            );
+                        })
+                    )}
+
                     {/* Render nodes (circles and text) */}
                     {nodes.map(node => {
-                        // Determine node color based on state
-                        let fillColor = "#FFF5F7";
-                        // let fillColor = "#FFEBEE"
-                        // let strokeColor = "#c8a900";
-                        // let strokeColor = "#A4804A"
-                        let strokeColor = "#E31837"
-                        let textColor = "black";
-                        let strokeWidth = 2;
-
-                        // check if this node represents a complete word the user inserted
-                        const nodeWord = node.id.replace(/root-?/g, '').replace(/-/g, '');
-                        const isRealCompleteWord = completeWords.has(nodeWord) && node.isEndOfWord;
-
-                        if (animatingPath.includes(node.id)) {
-                            fillColor = "red"; // currently animating
-                        } else if (activePath.includes(node.id)) {
-                            fillColor = "#FFAB91";
-                        } else if (isRealCompleteWord) {
-                            fillColor = "#c8102e";
-                            strokeWidth = 3;
-                            textColor = "white"
-                        }
+                        const { style } = getNodeStyle(node);
+
+                        // new nodes grow in from their parent
+                        const { scale: growth, opacity: fade } = frames.get(node.id)!;
 
                         return (
-                            <g key={node.id}>
+                            <g
+                                key={node.id}
+                                className="trie-node"
+                                role="treeitem"
+                                aria-label={describeNode(node)}
+                                aria-level={treeIndex.levelOf.get(node.id)}
+                                aria-setsize={treeIndex.parentOf.get(node.id)?.children.length ?? 1}
+                                aria-posinset={(treeIndex.parentOf.get(node.id)?.children.indexOf(node.id) ?? 0) + 1}
+                                aria-selected={node.id === selectedId}
+                                aria-expanded={node.children.length > 0 || node.collapsed ? !node.collapsed : undefined}
+                                tabIndex={node.id === (selectedId ?? layoutNodes[0].id) ? 0 : -1}
+                                data-node-id={node.id}
+                                opacity={style.opacity * fade}
+                                transform={growth === 1 ? undefined : `translate(${node.x} ${node.y}) scale(${growth}) translate(${-node.x} ${-node.y})`}
+                                onClick={(e) => handleNodeClick(node, e)}
+                                onDoubleClick={() => handleFocus(node.path)}
+                            >
+                                {/* the node open in the inspector */}
+                                {node.id === selectedId && (
+                                    <circle className="selected-ring" cx={node.x} cy={node.y} r={node.collapsed ? 30 : 25} stroke={palette.selected} />
+                                )}
+
+                                {/* a second ring marks a collapsed subtree */}
+                                {node.collapsed && (
+                                    <circle cx={node.x} cy={node.y} r={25} fill="none" stroke={style.stroke} strokeWidth={1.5} />
+                                )}
+
                                 {/* Circle for node */}
                                 <circle
+                                    className="node-circle"
                                     cx={node.x}
                                     cy={node.y}
                                     r={20}
-                                    fill={fillColor}
-                                    stroke={strokeColor}
-                                    strokeWidth={strokeWidth}
+                                    fill={style.fill}
+                                    stroke={style.stroke}
+                                    strokeWidth={style.strokeWidth}
+                                    strokeDasharray={style.dashed ? "4 3" : undefined}
                                 />
 
                                 {/* Text label */}
@@ -537,11 +1342,28 @@ export const TrieVisualizer = () => {
                                     textAnchor="middle"
                                     fontSize="14"
                                     fontWeight="bold"
-                                    fill={textColor}
+                                    fill={style.text}
                                     // stroke={textColor}
                                 >
                                     {node.char}
                                 </text>
+
+                                {/* badge with what the collapsed subtree holds */}
+                                {node.collapsed && (
+                                    <g
+                                        className="collapsed-badge"
+                                        onClick={(e) => {
+                                            // the badge opens the subtree again rather than selecting
+                                            e.stopPropagation();
+                                            toggleCollapsed(node.prefix);
+                                        }}
+                                    >
+                                        <rect x={node.x - 42} y={node.y + 30} width={84} height={20} rx={10} fill={palette.badge.fill} />
+                                        <text x={node.x} y={node.y + 44} textAnchor="middle" fill={palette.badge.text}>
+                                            {node.hiddenWords}w · {node.hiddenNodes} nodes
+                                        </text>
+                                    </g>
+                                )}
                             </g>
                         );
                     })}
@@ -551,92 +1373,329 @@ export const TrieVisualizer = () => {
     };
 
 
+    // big trees are slow to lay out, so only redo it when the shape of the tree or the view settings change,
+    // the structures are mutated in place and their shape version stands in for their nodes,
+    // new settings start the layout over while a changed shape only places the subtrees that changed
+    const { node: focusRoot, path: focusNodePath } = getFocusRoot();
+    const shapeVersion = structure === 'radix' ? radix.getShapeVersion() : viewedTrie.getShapeVersion();
+    const layoutState = layoutStateCache.get(
+        [focusRoot, focusNodePath, collapsed, trie.normalizer, layoutName],
+        () => ({ layout: new LayoutMemo(), flattened: new Map() })
+    );
+    const shape = layoutCache.get(
+        [layoutState, shapeVersion],
+        () => {
+            const { nodes: treeNodes, sources } = buildTreeNodes(
+                focusRoot, focusNodePath, collapsed, trie.normalizer, layoutState.flattened
+            );
+            const positions = getLayout(layoutName).layout(treeNodes, layoutState.layout);
+            const nodes = treeNodes.map(node => {
+                const { x, y } = positions.get(node.id)!;
+                return { ...node, x, y };
+            });
+            return { nodes, sources, bounds: getBounds(nodes) };
+        }
+    );
+
+    // marking and unmarking words leaves every node where it is, so only the marks are refreshed
+    const structureVersion = structure === 'radix' ? radix.getVersion() : viewedVersion;
+    const layoutNodes = marksCache.get(
+        [shape, structureVersion],
+        () => shape.nodes.map((node, index) => withMarks(node, shape.sources[index]))
+    );
+    const { bounds } = shape;
+
+    // layoutNodes hold where nodes are headed, the transition layer decides where they are drawn
+    const useCanvas = layoutNodes.length > CANVAS_THRESHOLD;
+    const transitions = useNodeTransitions(useCanvas ? NO_NODES : layoutNodes);
+    const { animatingPath, activePath } = getHighlights();
+    const animatingIds = new Set(animatingPath);
+    const activeIds = new Set(activePath);
+
+    // the subtree autocomplete walked, plus the path down to it, in suffix mode the substring query
+    const walkedPrefix = structure === 'suffix' ? suffixQuery.trim() : isDictionaryMode ? trimmedPrefix : '';
+    const prefixKeys = walkedPrefix && viewedTrie.startsWith(walkedPrefix) ? viewedTrie.keys(walkedPrefix) : null;
+    const isInPrefixWalk = (node: TrieNodeData): boolean => {
+        if (!prefixKeys) return false;
+        return startsWithKeys(node.path, prefixKeys) || startsWithKeys(prefixKeys, node.path);
+    };
+
+    const selectedId = layoutNodes.find(node => node.prefix === selectedPrefix)?.id;
+    const treeIndex = treeIndexCache.get([layoutNodes], () => buildTreeIndex(layoutNodes));
+
+    const fuzzyMatchIds = new Set(nodeIdsAlong(fuzzyResult?.matches.map(({ word }) => trie.normalizer.segment(word)) ?? []));
+    const matchedWords = gridStep?.kind === 'found' ? [gridStep.prefix] : scanStep?.matches.map(({ word }) => word) ?? [];
+    const wordMatchIds = new Set(nodeIdsAlong(matchedWords.map(word => trie.normalizer.segment(word))));
+    const viewport = useViewport(bounds);
+
+    // keep the node being animated on screen
+    const focusNode = layoutNodes.find(node => node.id === animatingPath[0]);
+    const focusX = focusNode?.x;
+    const focusY = focusNode?.y;
+    const { containerRef, pointerHandlers, follow, isFitted } = viewport;
+
+    useEffect(() => {
+        if (isFitted || focusX === undefined || focusY === undefined) return;
+        follow(focusX, focusY);
+    }, [focusX, focusY, isFitted, follow]);
+
     return (
-        <div className="trie-visualizer">
+        <div className={`trie-visualizer ${theme === 'high-contrast' ? 'high-contrast' : ''}`}>
+            {/* spoken when the keyboard moves the selection */}
+            <div className="visually-hidden" aria-live="polite">{selectionAnnouncement}</div>
+
             {/* left sidebar */}
             <div className="side-bar">
-                {/* dictionary section */}
-                <div className="word-dictionary">
-                    <h3> Words in Trie ({completeWords.size})</h3>
-                    <div className="word-dict-words">
-                        {completeWords.size === 0 ? (
-                            <span style={{ color: '#999', fontStyle: 'italic' }}>No words yet. Add some words to get started!</span>
-                        ) : (
-                            Array.from(completeWords).sort().map(word => (
-                                <span className="dictionary-word">{word}</span>
-                            ))
-                        )}
-                    </div>
+                {/* the modes that read the dictionary, or another text, bring their own panel */}
+                {structure === 'suffix' && (
+                    <SuffixPanel
+                        suffixTrie={suffixTrie}
+                        query={suffixQuery}
+                        onQueryChange={setSuffixQuery}
+                        onBuild={handleBuildSuffixTrie}
+                    />
+                )}
+                {structure === 'scan' && (
+                    <ScanPanel
+                        text={scanText}
+                        keys={trie.keys(scanText)}
+                        steps={scanSteps}
+                        position={Math.min(scanPosition, scanSteps.length)}
+                        showAllLinks={showAllFailureLinks}
+                        onScan={handleScanText}
+                        onPositionChange={setScanPosition}
+                        onShowAllLinksChange={setShowAllFailureLinks}
+                    />
+                )}
+                {structure === 'grid' && (
+                    <WordGridPanel
+                        grid={grid}
+                        solution={gridSolution}
+                        position={gridSolution ? Math.min(gridPosition, gridSolution.steps.length) : 0}
+                        onPositionChange={setGridPosition}
+                        onGridChange={handleGridChange}
+                        onEnter={handleEnterGrid}
+                        onSolve={handleSolveGrid}
+                    />
+                )}
 
-                </div>
+                {isDictionaryMode && (
+                    <>
+                        {/* the selected node */}
+                        {selectedPrefix !== null && (
+                            <NodeInspector
+                                key={selectedPrefix}
+                                trie={trie}
+                                version={trieVersion}
+                                radix={structure === 'radix' ? radix : undefined}
+                                prefix={selectedPrefix}
+                                collapsed={collapsed.has(selectedPrefix)}
+                                onSearch={queueSearch}
+                                onInsert={queueInsert}
+                                onDelete={queueDelete}
+                                onSelect={setSelectedPrefix}
+                                onToggleCollapsed={() => toggleCollapsed(selectedPrefix)}
+                                onFocus={() => handleFocus(trie.normalizer.segment(selectedPrefix))}
+                                onClose={() => setSelectedPrefix(null)}
+                            />
+                        )}
 
-                {/* controls */}
-                <div className="controls">
-                    {/* add word */}
-                    <div className="form-group">
-                        <label htmlFor="add-word" className="controls-label">Add Word:</label>
-                        <input
-                            name="add-word"
-                            type="text"
-                            value={inputWord}
-                            onChange={(e) => setInputWord(e.target.value)}
-                            onKeyDown={handleKeyPress}
-                            placeholder="Enter a word"
+                        {/* saved dictionaries */}
+                        <DictionaryManager
+                            dictionaries={dictionaries}
+                            activeId={dictionaryId}
+                            onSwitch={handleSwitchDictionary}
+                            onCreate={handleCreateDictionary}
+                            onRename={handleRenameDictionary}
+                            onDuplicate={handleDuplicateDictionary}
+                            onDelete={handleDeleteDictionary}
                         />
-                    </div>
 
-                    {/* Search Prefix */}
-                    <div className="form-group">
-                        <label htmlFor="search-prefix">Search Prefix:</label>
-                        <input
-                            name="search-prefix"
-                            type="text"
-                            value={prefixInput}
-                            onChange={(e) => setPrefixInput(e.target.value)}
-                            placeholder="Type prefix (e.g., 's', 'sh')"
-                        />
+                        {/* dictionary section */}
+                        <div className="word-dictionary">
+                            <h3> Words in Trie ({trie.wordCount()})</h3>
+                            <div className="word-dict-words">
+                                {dictionaryWords.length === 0 ? (
+                                    <span style={{ color: '#999', fontStyle: 'italic' }}>No words yet. Add some words to get started!</span>
+                                ) : (
+                                    dictionaryWords.slice(0, DICTIONARY_LIMIT).map(word => (
+                                        <span key={word} className="dictionary-word">{word}</span>
+                                    ))
+                                )}
+                                {dictionaryWords.length > DICTIONARY_LIMIT && (
+                                    <span className="dictionary-more">and {dictionaryWords.length - DICTIONARY_LIMIT} more</span>
+                                )}
+                            </div>
+
+                        </div>
+                    </>
+                )}
 
-                        {/* render data */}
-                        <div className="prefix-matches">
-                            <div className="prefix-matches-stats"> Matches: {prefixMatches.length}</div>
-                            {prefixMatches.length === 0 && prefixInput ? (
-                                <span className="no-prefixes">Start typing to search...</span>
-                            ) : (
-                                <div className="match-found">
-                                    {prefixMatches.map(word => (
-                                        <span key={word} className="matched-word">{word}</span>
-                                    ))}
+                {/* shape and memory of the trie */}
+                <MetricsPanel trie={viewedTrie} version={viewedVersion} />
+
+                {/* trie against a Set and a sorted array */}
+                <BenchmarkPanel trie={trie} />
+
+                {/* the dictionary is edited here, the other modes only read it */}
+                {isDictionaryMode && (
+                    <>
+                        {/* key normalization policy */}
+                        <NormalizationPanel options={trie.normalizer.options} onChange={handleNormalizationChange} />
+
+                        {/* import and export */}
+                        <ImportExportPanel trie={trie} onImport={handleImport} onMessage={setFeedbackMessage} />
+
+                        {/* controls */}
+                        <div className="controls">
+                            {/* add word */}
+                            <div className="form-group">
+                                <label htmlFor="add-word" className="controls-label">Add Word:</label>
+                                <input
+                                    id="add-word"
+                                    type="text"
+                                    value={inputWord}
+                                    onChange={(e) => setInputWord(e.target.value)}
+                                    onKeyDown={handleKeyPress}
+                                    placeholder="Enter a word"
+                                />
+                            </div>
+
+                            {/* Search Prefix */}
+                            <div className="form-group">
+                                <label htmlFor="search-prefix">Search Prefix:</label>
+                                <input
+                                    id="search-prefix"
+                                    type="text"
+                                    value={prefixInput}
+                                    onChange={(e) => setPrefixInput(e.target.value)}
+                                    placeholder="Type prefix (e.g., 's', 'sh')"
+                                />
+
+                                {/* render data */}
+                                <div className="prefix-matches">
+                                    <div className="prefix-matches-stats"> Matches: {prefixMatches.length}</div>
+                                    {prefixMatches.length === 0 && prefixInput ? (
+                                        <span className="no-prefixes">Start typing to search...</span>
+                                    ) : (
+                                        <div className="match-found">
+                                            {prefixMatches.map(({ word, weight }) => (
+                                                <span key={word} className="matched-word">
+                                                    {word}
+                                                    {weight > 1 && <span className="matched-word-weight">×{weight}</span>}
+                                                </span>
+                                            ))}
+                                        </div>
+                                    )}
                                 </div>
-                            )}
+                            </div>
+
+                            {/* Search section */}
+                            <div className="form-group">
+                                <label htmlFor="search-word">Search Word:</label>
+                                <input
+                                    id="search-word"
+                                    type="text"
+                                    value={searchInput}
+                                    onChange={(e) => setSearchInput(e.target.value)}
+                                    onKeyDown={handleSearchKeyPress}
+                                    placeholder={fuzzyMode ? "Enter a word to match loosely" : "Enter word to search"}
+                                />
+
+                                <div className="search-options">
+                                    <label className="fuzzy-toggle">
+                                        <input
+                                            type="checkbox"
+                                            checked={fuzzyMode}
+                                            onChange={(e) => setFuzzyMode(e.target.checked)}
+                                        />
+                                        Fuzzy
+                                    </label>
+                                    {fuzzyMode && (
+                                        <label className="fuzzy-distance">
+                                            Max edits:
+                                            <select
+                                                value={fuzzyDistance}
+                                                onChange={(e) => setFuzzyDistance(Number(e.target.value))}
+                                            >
+                                                {[1, 2, 3].map(distance => (
+                                                    <option key={distance} value={distance}>{distance}</option>
+                                                ))}
+                                            </select>
+                                        </label>
+                                    )}
+                                </div>
+
+                                {fuzzyResult && (
+                                    <div className="prefix-matches">
+                                        <div className="prefix-matches-stats">
+                                            Close to "{fuzzyResult.query}": {fuzzyResult.matches.length}
+                                        </div>
+                                        <div className="match-found">
+                                            {fuzzyResult.matches.map(({ word, distance }) => (
+                                                <span key={word} className="matched-word fuzzy-match">
+                                                    {word}
+                                                    <span className="matched-word-weight">{distance === 0 ? 'exact' : `±${distance}`}</span>
+                                                </span>
+                                            ))}
+                                        </div>
+                                    </div>
+                                )}
+                            </div>
+
+                            {/* pattern search section */}
+                            <div className="form-group">
+                                <label htmlFor="pattern-search">Pattern Search:</label>
+                                <input
+                                    id="pattern-search"
+                                    type="text"
+                                    value={patternInput}
+                                    onChange={(e) => setPatternInput(e.target.value)}
+                                    onKeyDown={handlePatternKeyPress}
+                                    placeholder="e.g. g?o* or ja.e"
+                                />
+                                <div className="pattern-hint">? or . matches one letter, * matches any run of letters</div>
+
+                                {patternResult && (
+                                    <div className="prefix-matches">
+                                        <div className="prefix-matches-stats">
+                                            Matches for "{patternResult.pattern}": {patternResult.words.length}
+                                        </div>
+                                        <div className="match-found">
+                                            {patternResult.words.map(word => (
+                                                <span key={word} className="matched-word">{word}</span>
+                                            ))}
+                                        </div>
+                                    </div>
+                                )}
+                            </div>
+
+                            {/* delete section */}
+                            <div className="form-group">
+                                <label htmlFor="delete-word">Delete Word:</label>
+                                <input
+                                    id="delete-word"
+                                    type="text"
+                                    value={deleteInput}
+                                    onChange={(e) => setDeleteInput(e.target.value)}
+                                    onKeyDown={handleDeleteKeyPress}
+                                    placeholder="Enter a word to delete (press Enter)"
+                                />
+                            </div>
                         </div>
-                    </div>
 
-                    {/* Search section */}
-                    <div className="form-group">
-                        <label htmlFor="search-word">Search Word:</label>
-                        <input
-                            name="search-word"
-                            type="text"
-                            value={searchInput}
-                            onChange={(e) => setSearchInput(e.target.value)}
-                            onKeyDown={handleSearchKeyPress}
-                            placeholder="Enter word to search"
-                        />
-                    </div>
+                        {/* queries that walk the children in sorted order */}
+                        <OrderedQueryPanel wordCount={trie.wordCount()} onQuery={queueQuery} />
 
-                    {/* delete section */}
-                    <div className="form-group">
-                        <label htmlFor="delete-word">Delete Word:</label>
-                        <input
-                            name="delete-word"
-                            type="text"
-                            value={deleteInput}
-                            onChange={(e) => setDeleteInput(e.target.value)}
-                            onKeyDown={handleDeleteKeyPress}
-                            placeholder="Enter a word to delete (press Enter)"
+                        <OperationQueuePanel
+                            current={playbackBusy && playback.operation ? `${playback.operation.type} "${playback.operation.word}"` : null}
+                            paused={playbackBusy && !playback.playing}
+                            pending={queue.pending}
+                            onCancel={queue.cancel}
+                            onClear={queue.clear}
                         />
-                    </div>
-                </div>
+                    </>
+                )}
 
                 {/* feedback message */}
                 {feedbackMessage && (
@@ -652,13 +1711,113 @@ export const TrieVisualizer = () => {
                         <h2>Visual Representation</h2>
                     </div>
 
+                    <div className="structure-toggle">
+                        <button
+                            className={structure === 'trie' ? 'active' : ''}
+                            onClick={() => handleStructureChange('trie')}
+                        >
+                            Standard Trie
+                        </button>
+                        <button
+                            className={structure === 'radix' ? 'active' : ''}
+                            onClick={() => handleStructureChange('radix')}
+                        >
+                            Radix Tree
+                        </button>
+                        <button
+                            className={structure === 'suffix' ? 'active' : ''}
+                            onClick={() => handleStructureChange('suffix')}
+                        >
+                            Suffix Trie
+                        </button>
+                        <button
+                            className={structure === 'scan' ? 'active' : ''}
+                            onClick={() => handleStructureChange('scan')}
+                        >
+                            Scan Text
+                        </button>
+                        <button
+                            className={structure === 'grid' ? 'active' : ''}
+                            onClick={() => handleStructureChange('grid')}
+                        >
+                            Word Grid
+                        </button>
+                    </div>
+
+                    <label className="layout-select">
+                        Layout
+                        <select value={layoutName} onChange={(e) => handleLayoutChange(e.target.value as LayoutName)}>
+                            {LAYOUTS.map(layout => (
+                                <option key={layout.name} value={layout.name}>{layout.label}</option>
+                            ))}
+                        </select>
+                    </label>
+
+                    <button
+                        className={`theme-toggle ${theme === 'high-contrast' ? 'active' : ''}`}
+                        aria-pressed={theme === 'high-contrast'}
+                        onClick={() => setTheme(theme === 'high-contrast' ? 'default' : 'high-contrast')}
+                    >
+                        High contrast
+                    </button>
+
                     <div className="button-group">
+                        <button onClick={handleUndo} disabled={!history.canUndo()} title="Undo (Ctrl+Z)">Undo</button>
+                        <button onClick={handleRedo} disabled={!history.canRedo()} title="Redo (Ctrl+Shift+Z)">Redo</button>
                         <button onClick={() => handleReset()}>Reset Trie</button>
                     </div>
                 </div>
+                <PlaybackBar playback={playback} />
+
+                {/* focus mode breadcrumb */}
+                <div className="focus-bar">
+                    <nav className="breadcrumb">
+                        {['root', ...focusNodePath].map((crumb, index) => (
+                            <span key={index}>
+                                {index > 0 && <span className="breadcrumb-separator">›</span>}
+                                <button
+                                    className={index === focusNodePath.length ? 'current' : ''}
+                                    onClick={() => handleFocus(focusNodePath.slice(0, index))}
+                                >
+                                    {crumb}
+                                </button>
+                            </span>
+                        ))}
+                    </nav>
+                    <input
+                        type="text"
+                        value={focusInput}
+                        onChange={(e) => setFocusInput(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && handleFocusPrefix()}
+                        placeholder="Focus on prefix (Enter)"
+                        aria-label="Focus on prefix"
+                    />
+                    <span className="focus-hint">Click a node to collapse it, shift-click to inspect it, double-click to focus, arrow keys to move</span>
+                </div>
                 {/* Visualize Tree */}
-                <div className="visualization">
+                <div
+                    className="visualization"
+                    ref={containerRef}
+                    {...pointerHandlers}
+                >
                     {renderTrie()}
+
+                    <div className="zoom-controls" onPointerDown={(e) => e.stopPropagation()}>
+                        <button onClick={viewport.zoomIn} title="Zoom in">+</button>
+                        <button onClick={viewport.zoomOut} title="Zoom out">−</button>
+                        <button onClick={viewport.fit} title="Fit to screen">Fit</button>
+                    </div>
+
+                    <div onPointerDown={(e) => e.stopPropagation()}>
+                        <Minimap
+                            nodes={layoutNodes}
+                            bounds={bounds}
+                            transform={viewport.transform}
+                            viewSize={viewport.size}
+                            palette={palette}
+                            onNavigate={viewport.centerOn}
+                        />
+                    </div>
                 </div>
             </div>
         </div>
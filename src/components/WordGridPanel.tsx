@@ -0,0 +1,162 @@
+import { useState } from "react";
+import {
+    formatGrid, generateGrid, MAX_GRID_SIZE, MIN_GRID_SIZE, MIN_WORD_LENGTH,
+    type GridSolution, type GridStep, type LetterGrid
+} from "../trie/wordGrid";
+import { StepControls } from "./StepControls";
+import './WordGridPanel.css';
+
+const GRID_STEP_DELAY = 250; // ms per cell tried while playing
+
+type WordGridPanelProps = {
+    grid: LetterGrid;
+    solution: GridSolution | null;  // null until the grid is solved
+    position: number;               // steps of the solution shown so far
+    onPositionChange: (position: number) => void;
+    onGridChange: (grid: LetterGrid) => void;
+    onEnter: (text: string) => void;
+    onSolve: () => void;
+};
+
+const describeGridStep = (step: GridStep): string => {
+    switch (step.kind) {
+        case 'extend': return `"${step.prefix}" starts a word, keep going`;
+        case 'found': return `Found "${step.prefix}"`;
+        case 'prune': return `No word starts with "${step.prefix}", skip everything past it`;
+    }
+};
+
+// the letter grid, its solver controls and the running tally
+export const WordGridPanel = ({
+    grid, solution, position, onPositionChange, onGridChange, onEnter, onSolve
+}: WordGridPanelProps) => {
+    const [size, setSize] = useState<number>(grid.length);
+    const [seed, setSeed] = useState<number>(7);
+    const [draft, setDraft] = useState<string>(formatGrid(grid));
+
+    const showGrid = (next: LetterGrid) => {
+        setDraft(formatGrid(next));
+        onGridChange(next);
+    };
+
+    const handleShuffle = () => {
+        const next = Math.floor(Math.random() * 100000);
+        setSeed(next);
+        showGrid(generateGrid(size, next));
+    };
+
+    const steps = solution?.steps ?? [];
+    const current = position > 0 ? steps[position - 1] : null;
+    const shown = steps.slice(0, position);
+    const found = shown.filter(step => step.kind === 'found');
+    const pruned = shown.filter(step => step.kind === 'prune').length;
+    const scores = new Map(solution?.words.map(word => [word.word, word.score]));
+    const score = found.reduce((total, step) => total + (scores.get(step.prefix) ?? 0), 0);
+
+    // where each cell sits on the current path, counting from 1
+    const order = new Map(current?.cells.map(([row, column], index) => [`${row},${column}`, index + 1]));
+
+    const cellClass = (row: number, column: number): string => {
+        const place = order.get(`${row},${column}`);
+        if (place === undefined) return 'word-grid-cell';
+        if (place < current!.cells.length) return 'word-grid-cell word-grid-path';
+        return `word-grid-cell word-grid-${current!.kind}`;
+    };
+
+    // jump to the step that found a word, so its path shows on the grid and in the trie
+    const showWord = (word: string) => {
+        const index = steps.findIndex(step => step.kind === 'found' && step.prefix === word);
+        if (index >= 0) onPositionChange(index + 1);
+    };
+
+    return (
+        <div className="word-grid-panel">
+            <h3>Word Grid</h3>
+
+            <div className="word-grid-options">
+                <label>
+                    Size
+                    <select value={size} onChange={(e) => setSize(Number(e.target.value))}>
+                        {Array.from({ length: MAX_GRID_SIZE - MIN_GRID_SIZE + 1 }, (_, index) => MIN_GRID_SIZE + index).map(option => (
+                            <option key={option} value={option}>{option}×{option}</option>
+                        ))}
+                    </select>
+                </label>
+                <label>
+                    Seed
+                    <input type="number" value={seed} onChange={(e) => setSeed(Math.floor(Number(e.target.value)))} />
+                </label>
+                <button onClick={() => showGrid(generateGrid(size, seed))}>Generate</button>
+                <button onClick={handleShuffle}>Shuffle</button>
+            </div>
+
+            <div
+                className="word-grid"
+                style={{ gridTemplateColumns: `repeat(${grid.length}, 1fr)` }}
+                role="grid"
+                aria-label="Letter grid"
+            >
+                {grid.map((letters, row) => letters.map((letter, column) => (
+                    <div key={`${row},${column}`} className={cellClass(row, column)} role="gridcell">
+                        {letter}
+                        {order.has(`${row},${column}`) && (
+                            <span className="word-grid-order">{order.get(`${row},${column}`)}</span>
+                        )}
+                    </div>
+                )))}
+            </div>
+
+            <label htmlFor="word-grid-text" className="controls-label">Enter a grid:</label>
+            <textarea
+                id="word-grid-text"
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                rows={Math.max(MIN_GRID_SIZE, grid.length)}
+                placeholder="One row of letters per line"
+            />
+            <div className="word-grid-actions">
+                <button onClick={() => onEnter(draft)}>Use this grid</button>
+                <button className="word-grid-solve" onClick={onSolve}>Solve</button>
+            </div>
+
+            {solution && (
+                <>
+                    <StepControls
+                        position={position}
+                        total={steps.length}
+                        delay={GRID_STEP_DELAY}
+                        onPositionChange={onPositionChange}
+                    />
+
+                    <div className="word-grid-step" aria-live="polite">
+                        {current ? describeGridStep(current) : 'Every cell starts a path'}
+                    </div>
+
+                    <dl className="word-grid-tally">
+                        <dt>Words</dt>
+                        <dd>{found.length} / {solution.words.length}</dd>
+                        <dt>Score</dt>
+                        <dd>{score} / {solution.score}</dd>
+                        <dt>Prefixes followed</dt>
+                        <dd>{shown.length - pruned} / {solution.explored}</dd>
+                        <dt>Branches pruned</dt>
+                        <dd>{pruned} / {solution.pruned}</dd>
+                    </dl>
+
+                    <div className="word-grid-words">
+                        {found.map(step => (
+                            <button key={step.prefix} className="word-grid-word" onClick={() => showWord(step.prefix)}>
+                                {step.prefix}
+                                <span className="word-grid-score">+{scores.get(step.prefix)}</span>
+                            </button>
+                        ))}
+                    </div>
+                </>
+            )}
+
+            <div className="word-grid-hint">
+                Words run through touching cells, diagonals included, using each cell once. Words of {MIN_WORD_LENGTH} or more letters score.
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,56 @@
+export type ThemeName = 'default' | 'high-contrast';
+
+// how a node looks in one state, highlights only swap the parts they care about
+export type Swatch = {
+    fill: string;
+    stroke: string;
+    text: string;
+    strokeWidth: number;
+};
+
+export type Palette = {
+    edge: string;
+    plain: Swatch;
+    word: Swatch;
+    animating: { fill: string, text: string };  // node the running step is on
+    active: { fill: string, text: string };     // nodes the operation already walked
+    prefix: { fill: string, stroke: string };   // autocomplete walk
+    fuzzyMatch: { fill: string, text: string };
+    explored: string;  // stroke of nodes fuzzy search computed a row for
+    pruned: string;    // stroke of nodes whose subtree fuzzy search skipped
+    selected: string;  // ring around the node in the inspector
+    failureLink: string;  // dashed arcs of the text scan
+    badge: { fill: string, text: string };  // what a collapsed subtree holds
+};
+
+export const PALETTES: Record<ThemeName, Palette> = {
+    'default': {
+        edge: "#004100",
+        plain: { fill: "#FFF5F7", stroke: "#E31837", text: "black", strokeWidth: 2 },
+        word: { fill: "#c8102e", stroke: "#E31837", text: "white", strokeWidth: 3 },
+        animating: { fill: "red", text: "black" },
+        active: { fill: "#FFAB91", text: "black" },
+        prefix: { fill: "#BBDEFB", stroke: "#1565C0" },
+        fuzzyMatch: { fill: "#2E7D32", text: "white" },
+        explored: "#2E7D32",
+        pruned: "#9E9E9E",
+        selected: "#1565C0",
+        failureLink: "#6A1B9A",
+        badge: { fill: "#1565C0", text: "white" },
+    },
+    // pure colours on black, every state differs in brightness as well as hue
+    'high-contrast': {
+        edge: "#FFFFFF",
+        plain: { fill: "#000000", stroke: "#FFFFFF", text: "#FFFFFF", strokeWidth: 3 },
+        word: { fill: "#FFFFFF", stroke: "#FFFFFF", text: "#000000", strokeWidth: 4 },
+        animating: { fill: "#FFFF00", text: "#000000" },
+        active: { fill: "#00FFFF", text: "#000000" },
+        prefix: { fill: "#0000FF", stroke: "#00FFFF" },
+        fuzzyMatch: { fill: "#00FF00", text: "#000000" },
+        explored: "#00FF00",
+        pruned: "#AAAAAA",
+        selected: "#FF00FF",
+        failureLink: "#FF8000",
+        badge: { fill: "#FFFF00", text: "#000000" },
+    },
+};
@@ -0,0 +1,146 @@
+import { useEffect, useState } from "react";
+
+const TRANSITION_DURATION = 450; // ms
+
+// what the transition layer needs to know about a laid out node
+export type TransitionNode = {
+    id: number;
+    x: number;
+    y: number;
+    children: number[];
+};
+
+// how a node is drawn at one moment of a transition
+export type NodeFrame = {
+    x: number;
+    y: number;
+    scale: number;
+    opacity: number;
+};
+
+// a node that is gone from the tree but still shrinking into what is left of its parent
+export type ExitingNode<T> = {
+    node: T;
+    frame: NodeFrame;
+    target: { x: number, y: number };
+};
+
+type Transition<T> = {
+    signature: string;                // ids and positions the transition is heading for
+    nodes: T[];
+    from: Map<number, NodeFrame>;     // where each node started
+    exiting: { node: T, from: NodeFrame, to: NodeFrame }[];
+};
+
+const settled = (node: TransitionNode): NodeFrame => ({ x: node.x, y: node.y, scale: 1, opacity: 1 });
+
+const mix = (from: NodeFrame, to: NodeFrame, t: number): NodeFrame => ({
+    x: from.x + (to.x - from.x) * t,
+    y: from.y + (to.y - from.y) * t,
+    scale: from.scale + (to.scale - from.scale) * t,
+    opacity: from.opacity + (to.opacity - from.opacity) * t,
+});
+
+const ease = (progress: number): number => 1 - Math.pow(1 - progress, 3);
+
+// changes whenever a node appears, disappears or gets a new place
+const signatureOf = (nodes: TransitionNode[]): string => {
+    return nodes.map(node => `${node.id}:${Math.round(node.x)}:${Math.round(node.y)}`).join(',');
+};
+
+const parentsOf = (nodes: TransitionNode[]): Map<number, number> => {
+    const parents = new Map<number, number>();
+    nodes.forEach(node => node.children.forEach(childId => parents.set(childId, node.id)));
+    return parents;
+};
+
+// every node's frame at the given progress, including the ones still on their way out
+const framesAt = <T extends TransitionNode>(transition: Transition<T>, progress: number) => {
+    const t = ease(progress);
+    const frames = new Map<number, NodeFrame>();
+    transition.nodes.forEach(node => {
+        frames.set(node.id, mix(transition.from.get(node.id) ?? settled(node), settled(node), t));
+    });
+
+    const exiting = progress < 1
+        ? transition.exiting.map(({ node, from, to }) => ({ node, frame: mix(from, to, t), to }))
+        : [];
+    return { frames, exiting };
+};
+
+// animates nodes growing in from their parent, shrinking into it when pruned and moving to new places,
+// every change starts from wherever the nodes are drawn at that moment, so changes can pile up freely
+export const useNodeTransitions = <T extends TransitionNode>(nodes: T[]) => {
+    const signature = signatureOf(nodes);
+    const [transition, setTransition] = useState<Transition<T>>(() => ({
+        signature, nodes, from: new Map(), exiting: []
+    }));
+    const [progress, setProgress] = useState<number>(1);
+    const [generation, setGeneration] = useState<number>(0);
+
+    // the tree changed, so head for the new positions from what is on screen right now
+    if (transition.signature !== signature) {
+        const drawn = framesAt(transition, progress);
+        const visible = new Map(drawn.frames);
+        drawn.exiting.forEach(({ node, frame }) => visible.set(node.id, frame));
+
+        const current = new Map(nodes.map(node => [node.id, node]));
+        const newParents = parentsOf(nodes);
+        const oldParents = parentsOf([...transition.nodes, ...transition.exiting.map(({ node }) => node)]);
+
+        // new nodes start collapsed on the closest ancestor that was already drawn
+        const from = new Map<number, NodeFrame>();
+        nodes.forEach(node => {
+            const frame = visible.get(node.id);
+            if (frame) {
+                from.set(node.id, frame);
+                return;
+            }
+
+            let ancestorId = newParents.get(node.id);
+            while (ancestorId !== undefined && !visible.has(ancestorId)) ancestorId = newParents.get(ancestorId);
+            const origin = ancestorId !== undefined ? visible.get(ancestorId)! : settled(node);
+            from.set(node.id, { x: origin.x, y: origin.y, scale: 0, opacity: 0 });
+        });
+
+        // removed nodes shrink into the closest ancestor that is still there
+        const exiting: Transition<T>['exiting'] = [];
+        const removed = [...transition.nodes, ...drawn.exiting.map(({ node }) => node)]
+            .filter(node => !current.has(node.id));
+        removed.forEach(node => {
+            let ancestorId = oldParents.get(node.id);
+            while (ancestorId !== undefined && !current.has(ancestorId)) ancestorId = oldParents.get(ancestorId);
+            const frame = visible.get(node.id) ?? settled(node);
+            const target = ancestorId !== undefined ? current.get(ancestorId)! : frame;
+            exiting.push({ node, from: frame, to: { x: target.x, y: target.y, scale: 0, opacity: 0 } });
+        });
+
+        setTransition({ signature, nodes, from, exiting });
+        setProgress(0);
+        setGeneration(generation + 1);
+    }
+
+    // run the clock again every time a new transition starts
+    useEffect(() => {
+        if (generation === 0) return;
+
+        const startTime = performance.now();
+        let frame = 0;
+
+        const tick = (now: number) => {
+            const elapsed = Math.min(1, (now - startTime) / TRANSITION_DURATION);
+            setProgress(elapsed);
+            if (elapsed < 1) frame = requestAnimationFrame(tick);
+        };
+        frame = requestAnimationFrame(tick);
+        return () => cancelAnimationFrame(frame);
+    }, [generation]);
+
+    const { frames, exiting } = framesAt(transition, progress);
+
+    return {
+        // where to draw a node this frame
+        frameOf: (node: T): NodeFrame => frames.get(node.id) ?? settled(node),
+        exiting: exiting.map(({ node, frame, to }): ExitingNode<T> => ({ node, frame, target: { x: to.x, y: to.y } })),
+    };
+};
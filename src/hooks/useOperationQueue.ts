@@ -0,0 +1,44 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+const QUEUE_GAP = 400; // ms to look at a finished operation before the next one starts
+
+export type QueuedOperation = {
+    id: number;
+    label: string;       // e.g. insert "cat", shown in the sidebar
+    start: () => void;   // records and loads the operation against the trie as it is by then
+};
+
+// runs operations one after another, the next one starting only once the current one is idle
+export const useOperationQueue = (busy: boolean) => {
+    const [pending, setPending] = useState<QueuedOperation[]>([]);
+    const nextIdRef = useRef<number>(0);
+
+    useEffect(() => {
+        if (busy || pending.length === 0) return;
+
+        const timer = setTimeout(() => {
+            const [next, ...rest] = pending;
+            setPending(rest);
+            next.start();
+        }, QUEUE_GAP);
+        return () => clearTimeout(timer);
+    }, [busy, pending]);
+
+    // start right away when nothing is running or waiting, otherwise wait in line
+    const enqueue = (label: string, start: () => void) => {
+        if (!busy && pending.length === 0) {
+            start();
+            return;
+        }
+        const id = nextIdRef.current++;
+        setPending(prev => [...prev, { id, label, start }]);
+    };
+
+    const cancel = useCallback((id: number) => {
+        setPending(prev => prev.filter(operation => operation.id !== id));
+    }, []);
+
+    const clear = useCallback(() => setPending([]), []);
+
+    return { pending, enqueue, cancel, clear };
+};
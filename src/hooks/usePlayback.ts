@@ -0,0 +1,120 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { StepRunner, TrieOperation } from "../trie/operations";
+
+const BASE_STEP_DELAY = 500; // ms per step at 1x speed
+
+export type Playback = {
+    operation: TrieOperation | null;
+    position: number;   // number of steps applied to the trie
+    playing: boolean;
+    speed: number;
+    load: (record: () => TrieOperation) => TrieOperation;
+    play: () => void;
+    pause: () => void;
+    stepForward: () => void;
+    stepBack: () => void;
+    seek: (position: number) => void;
+    setSpeed: (speed: number) => void;
+    clear: () => void;
+};
+
+// drives a structure through the recorded steps of one operation at a time
+export const usePlayback = (runner: StepRunner, onFinish: (operation: TrieOperation) => void): Playback => {
+    const [operation, setOperation] = useState<TrieOperation | null>(null);
+    const [position, setPosition] = useState<number>(0);
+    const [playing, setPlaying] = useState<boolean>(false);
+    const [speed, setSpeed] = useState<number>(1);
+
+    // refs hold the source of truth so trie mutations never run inside a state updater
+    const operationRef = useRef<TrieOperation | null>(null);
+    const positionRef = useRef<number>(0);
+    const runnerRef = useRef(runner);
+    const onFinishRef = useRef(onFinish);
+
+    useEffect(() => {
+        runnerRef.current = runner;
+        onFinishRef.current = onFinish;
+    }, [runner, onFinish]);
+
+    const seek = useCallback((target: number) => {
+        const op = operationRef.current;
+        if (!op) return;
+
+        const clamped = Math.max(0, Math.min(target, op.steps.length));
+        if (clamped === positionRef.current) return;
+
+        while (positionRef.current < clamped) {
+            runnerRef.current.apply(op.steps[positionRef.current]);
+            positionRef.current++;
+        }
+        while (positionRef.current > clamped) {
+            positionRef.current--;
+            runnerRef.current.revert(op.steps[positionRef.current]);
+        }
+
+        setPosition(clamped);
+
+        if (clamped === op.steps.length) {
+            setPlaying(false);
+            onFinishRef.current(op);
+        }
+    }, []);
+
+    // apply whatever is left of the current operation
+    const finish = useCallback(() => {
+        const op = operationRef.current;
+        if (op) seek(op.steps.length);
+    }, [seek]);
+
+    const load = useCallback((record: () => TrieOperation) => {
+        finish();
+
+        const op = record();
+        operationRef.current = op;
+        positionRef.current = 0;
+        setOperation(op);
+        setPosition(0);
+        setPlaying(true);
+        return op;
+    }, [finish]);
+
+    const clear = useCallback(() => {
+        finish();
+        operationRef.current = null;
+        positionRef.current = 0;
+        setOperation(null);
+        setPosition(0);
+        setPlaying(false);
+    }, [finish]);
+
+    const play = useCallback(() => {
+        const op = operationRef.current;
+        if (!op) return;
+
+        // replay from the start when we are already at the end
+        if (positionRef.current === op.steps.length) seek(0);
+        setPlaying(true);
+    }, [seek]);
+
+    const pause = useCallback(() => setPlaying(false), []);
+
+    const stepForward = useCallback(() => {
+        setPlaying(false);
+        seek(positionRef.current + 1);
+    }, [seek]);
+
+    const stepBack = useCallback(() => {
+        setPlaying(false);
+        seek(positionRef.current - 1);
+    }, [seek]);
+
+    // advance one step at a time while playing
+    useEffect(() => {
+        if (!playing) return;
+
+        const timer = setTimeout(() => seek(positionRef.current + 1), BASE_STEP_DELAY / speed);
+        return () => clearTimeout(timer);
+    }, [playing, position, speed, seek]);
+
+    return { operation, position, playing, speed, load, play, pause, stepForward, stepBack, seek, setSpeed, clear };
+};
@@ -0,0 +1,9 @@
+import { useCallback, useSyncExternalStore } from "react";
+import type { Trie } from "../trie/Trie";
+
+// re-render whenever the trie changes, however the change was made
+export const useTrieVersion = (trie: Trie): number => {
+    const subscribe = useCallback((onChange: () => void) => trie.subscribe(onChange), [trie]);
+    const getVersion = () => trie.getVersion();
+    return useSyncExternalStore(subscribe, getVersion, getVersion);
+};
@@ -0,0 +1,196 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+export type Bounds = {
+    minX: number;
+    maxX: number;
+    minY: number;
+    maxY: number;
+};
+
+// screen position = world position * scale + (x, y)
+export type ViewTransform = {
+    x: number;
+    y: number;
+    scale: number;
+};
+
+const MIN_SCALE = 0.05;
+const MAX_SCALE = 4;
+const FIT_PADDING = 40;     // room around the outermost nodes
+const FOLLOW_MARGIN = 60;   // how close to the edge a followed node may get
+const PAN_DURATION = 300;   // ms
+export const DRAG_THRESHOLD = 3;   // px before a press becomes a pan, so clicks still reach nodes
+
+const clampScale = (scale: number): number => Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale));
+
+// scale and center the bounds inside the container, never zooming in past 1x
+export const fitTransform = (bounds: Bounds, width: number, height: number): ViewTransform => {
+    const boundsWidth = bounds.maxX - bounds.minX + FIT_PADDING * 2;
+    const boundsHeight = bounds.maxY - bounds.minY + FIT_PADDING * 2;
+    const scale = clampScale(Math.min(width / boundsWidth, height / boundsHeight, 1));
+
+    return {
+        scale,
+        x: width / 2 - ((bounds.minX + bounds.maxX) / 2) * scale,
+        y: FIT_PADDING * scale - bounds.minY * scale + Math.max(0, (height - boundsHeight * scale) / 2),
+    };
+};
+
+export type Viewport = ReturnType<typeof useViewport>;
+
+// wheel zoom, drag to pan and animated follow for the tree svg
+export const useViewport = (bounds: Bounds) => {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const [size, setSize] = useState<{ width: number, height: number }>({ width: 800, height: 600 });
+
+    // null means fit to screen, which keeps fitting as the tree grows
+    const [userTransform, setUserTransform] = useState<ViewTransform | null>(null);
+    const transform = userTransform ?? fitTransform(bounds, size.width, size.height);
+
+    const transformRef = useRef(transform);
+    const sizeRef = useRef(size);
+    const animationRef = useRef<number | null>(null);
+    const dragRef = useRef<{ startX: number, startY: number, origin: ViewTransform, panning: boolean } | null>(null);
+
+    useEffect(() => {
+        transformRef.current = transform;
+        sizeRef.current = size;
+    });
+
+    const stopAnimation = useCallback(() => {
+        if (animationRef.current !== null) {
+            cancelAnimationFrame(animationRef.current);
+            animationRef.current = null;
+        }
+    }, []);
+
+    // keep the container size in sync
+    useEffect(() => {
+        const container = containerRef.current;
+        if (!container) return;
+
+        const observer = new ResizeObserver(([entry]) => {
+            setSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+        });
+        observer.observe(container);
+        return () => observer.disconnect();
+    }, []);
+
+    // zoom around a point on screen so it stays under the cursor
+    const zoomAt = useCallback((factor: number, screenX: number, screenY: number) => {
+        stopAnimation();
+
+        const current = transformRef.current;
+        const scale = clampScale(current.scale * factor);
+        const ratio = scale / current.scale;
+
+        setUserTransform({
+            scale,
+            x: screenX - (screenX - current.x) * ratio,
+            y: screenY - (screenY - current.y) * ratio,
+        });
+    }, [stopAnimation]);
+
+    // react registers wheel listeners as passive, so attach our own to stop page scrolling
+    useEffect(() => {
+        const container = containerRef.current;
+        if (!container) return;
+
+        const handleWheel = (e: WheelEvent) => {
+            e.preventDefault();
+            const rect = container.getBoundingClientRect();
+            zoomAt(Math.exp(-e.deltaY * 0.0015), e.clientX - rect.left, e.clientY - rect.top);
+        };
+
+        container.addEventListener('wheel', handleWheel, { passive: false });
+        return () => container.removeEventListener('wheel', handleWheel);
+    }, [zoomAt]);
+
+    useEffect(() => stopAnimation, [stopAnimation]);
+
+    const onPointerDown = (e: React.PointerEvent) => {
+        if (e.button !== 0) return;
+        dragRef.current = { startX: e.clientX, startY: e.clientY, origin: transformRef.current, panning: false };
+    };
+
+    const onPointerMove = (e: React.PointerEvent) => {
+        const drag = dragRef.current;
+        if (!drag) return;
+
+        const dx = e.clientX - drag.startX;
+        const dy = e.clientY - drag.startY;
+        if (!drag.panning && Math.hypot(dx, dy) < DRAG_THRESHOLD) return;
+
+        if (!drag.panning) {
+            drag.panning = true;
+            stopAnimation();
+            e.currentTarget.setPointerCapture(e.pointerId);
+        }
+        setUserTransform({ ...drag.origin, x: drag.origin.x + dx, y: drag.origin.y + dy });
+    };
+
+    const onPointerUp = () => {
+        dragRef.current = null;
+    };
+
+    // ease from the current transform to the target
+    const panTo = useCallback((target: ViewTransform) => {
+        stopAnimation();
+
+        const start = transformRef.current;
+        const startTime = performance.now();
+
+        const tick = (now: number) => {
+            const progress = Math.min(1, (now - startTime) / PAN_DURATION);
+            const eased = 1 - Math.pow(1 - progress, 3);
+
+            setUserTransform({
+                scale: start.scale + (target.scale - start.scale) * eased,
+                x: start.x + (target.x - start.x) * eased,
+                y: start.y + (target.y - start.y) * eased,
+            });
+
+            animationRef.current = progress < 1 ? requestAnimationFrame(tick) : null;
+        };
+        animationRef.current = requestAnimationFrame(tick);
+    }, [stopAnimation]);
+
+    const centerOn = useCallback((worldX: number, worldY: number) => {
+        const { scale } = transformRef.current;
+        const { width, height } = sizeRef.current;
+        panTo({ scale, x: width / 2 - worldX * scale, y: height / 2 - worldY * scale });
+    }, [panTo]);
+
+    // bring a point back into view when it drifts near the edge
+    const follow = useCallback((worldX: number, worldY: number) => {
+        const { x, y, scale } = transformRef.current;
+        const { width, height } = sizeRef.current;
+        const screenX = worldX * scale + x;
+        const screenY = worldY * scale + y;
+
+        const isVisible = screenX > FOLLOW_MARGIN && screenX < width - FOLLOW_MARGIN
+            && screenY > FOLLOW_MARGIN && screenY < height - FOLLOW_MARGIN;
+        if (!isVisible) centerOn(worldX, worldY);
+    }, [centerOn]);
+
+    const fit = () => {
+        stopAnimation();
+        setUserTransform(null);
+    };
+
+    const zoomIn = () => zoomAt(1.25, size.width / 2, size.height / 2);
+    const zoomOut = () => zoomAt(0.8, size.width / 2, size.height / 2);
+
+    return {
+        containerRef,
+        size,
+        transform,
+        isFitted: userTransform === null,
+        fit,
+        zoomIn,
+        zoomOut,
+        centerOn,
+        follow,
+        pointerHandlers: { onPointerDown, onPointerMove, onPointerUp, onPointerCancel: onPointerUp },
+    };
+};
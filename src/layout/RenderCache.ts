@@ -0,0 +1,18 @@
+// keeps the last layout or other derived data and only recomputes it when one of its inputs changes,
+// tries are mutated in place so callers pass their version as one of the inputs
+export class RenderCache<T> {
+    private inputs: unknown[] = [];
+    private value: T | null = null;
+
+    get(inputs: unknown[], compute: () => T): T {
+        const changed = this.value === null
+            || inputs.length !== this.inputs.length
+            || inputs.some((input, index) => !Object.is(input, this.inputs[index]));
+
+        if (changed) {
+            this.value = compute();
+            this.inputs = inputs;
+        }
+        return this.value!;
+    }
+}
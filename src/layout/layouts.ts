@@ -0,0 +1,176 @@
+export type LayoutNode = {
+    id: number;
+    children: number[];  // IDs of child nodes, in drawing order
+    version?: number;    // changes whenever a node at or below this one comes or goes
+};
+
+export type Point = {
+    x: number;
+    y: number;
+};
+
+export type LayoutName = 'columns' | 'tidy' | 'horizontal' | 'radial';
+
+// places a tree given in pre-order, the first node being its root
+export type TreeLayout = {
+    name: LayoutName;
+    label: string;
+    layout: (nodes: LayoutNode[], memo?: LayoutMemo) => Map<number, Point>;
+};
+
+const LEVEL_SPACING = 80;       // between depths in top-down layouts
+const COLUMN_SPACING = 60;      // between leaves in the column layout
+const SIBLING_SPACING = 50;     // closest two nodes on the same depth may get
+const HORIZONTAL_LEVEL = 110;   // between depths when growing left to right
+const RING_SPACING = 90;        // between depths in the radial layout
+
+const indexNodes = (nodes: LayoutNode[]): Map<number, LayoutNode> => {
+    return new Map(nodes.map(node => [node.id, node]));
+};
+
+// left and right edge of a subtree at each depth below its root, relative to the root
+type Contour = {
+    left: number[];
+    right: number[];
+};
+
+// what a layout keeps between runs on a growing tree, subtrees whose version is unchanged are not placed again,
+// it belongs to one layout of one tree, so a new one is needed when either changes
+export class LayoutMemo {
+    readonly contours = new Map<number, { version: number, contour: Contour }>();
+    readonly offsets = new Map<number, number>();  // x relative to the parent
+}
+
+// subtrees are pushed together until their contours touch, with a contour per depth for the tidy tree
+// or one edge for the whole subtree, which gives every leaf its own column, y comes back as the depth
+const placeByContour = (
+    nodes: LayoutNode[], memo: LayoutMemo, spacing: number, perDepth: boolean
+): Map<number, Point> => {
+    const nodeMap = indexNodes(nodes);
+    const { contours: remembered, offsets } = memo;
+
+    const place = (nodeId: number): Contour => {
+        const { children, version } = nodeMap.get(nodeId)!;
+        const known = remembered.get(nodeId);
+        if (known && version !== undefined && known.version === version) return known.contour;
+
+        const contour = children.length === 0 ? { left: [0], right: [0] } : placeChildren(children, perDepth);
+        if (version !== undefined) remembered.set(nodeId, { version, contour });
+        return contour;
+    };
+
+    const placeChildren = (children: number[], withRoot: boolean): Contour => {
+        const contours = children.map(place);
+        const merged: Contour = { left: [...contours[0].left], right: [...contours[0].right] };
+        const childX = [0];
+
+        for (let index = 1; index < contours.length; index++) {
+            const contour = contours[index];
+
+            // the closest this subtree may sit to everything placed so far
+            let x = -Infinity;
+            const sharedDepth = Math.min(merged.right.length, contour.left.length);
+            for (let depth = 0; depth < sharedDepth; depth++) {
+                x = Math.max(x, merged.right[depth] - contour.left[depth] + spacing);
+            }
+            childX.push(x);
+
+            contour.left.forEach((left, depth) => {
+                if (depth >= merged.left.length) merged.left.push(left + x);
+                merged.right[depth] = contour.right[depth] + x;
+            });
+        }
+
+        // center the parent over its first and last child
+        const center = (childX[0] + childX[childX.length - 1]) / 2;
+        children.forEach((childId, index) => offsets.set(childId, childX[index] - center));
+
+        const left = merged.left.map(edge => edge - center);
+        const right = merged.right.map(edge => edge - center);
+        return withRoot ? { left: [0, ...left], right: [0, ...right] } : { left, right };
+    };
+
+    const rootId = nodes[0].id;
+    place(rootId);
+
+    // turn parent relative offsets into absolute positions, in pre-order so parents come first
+    const positions = new Map<number, Point>([[rootId, { x: 0, y: 0 }]]);
+    nodes.forEach(node => {
+        const parent = positions.get(node.id)!;
+        node.children.forEach(childId => {
+            positions.set(childId, { x: parent.x + offsets.get(childId)!, y: parent.y + 1 });
+        });
+    });
+    return positions;
+};
+
+// the original layout: every leaf gets its own column and parents sit over their children
+const columnsLayout = (nodes: LayoutNode[], memo: LayoutMemo = new LayoutMemo()): Map<number, Point> => {
+    const positions = placeByContour(nodes, memo, COLUMN_SPACING, false);
+    positions.forEach(point => point.y *= LEVEL_SPACING);
+    return positions;
+};
+
+// Reingold–Tilford: subtrees are pushed together until their contours touch
+const tidyLayout = (nodes: LayoutNode[], memo: LayoutMemo = new LayoutMemo()): Map<number, Point> => {
+    const positions = placeByContour(nodes, memo, SIBLING_SPACING, true);
+    positions.forEach(point => point.y *= LEVEL_SPACING);
+    return positions;
+};
+
+// the tidy tree turned on its side, so long words run along the wide axis
+const horizontalLayout = (nodes: LayoutNode[], memo: LayoutMemo = new LayoutMemo()): Map<number, Point> => {
+    const positions = placeByContour(nodes, memo, SIBLING_SPACING, true);
+    positions.forEach(point => {
+        const across = point.x;
+        point.x = point.y * HORIZONTAL_LEVEL;
+        point.y = across;
+    });
+    return positions;
+};
+
+// root in the middle, each subtree gets a slice of the circle sized by its leaves,
+// which moves every node whenever a leaf comes or goes, so it places the whole tree each time
+const radialLayout = (nodes: LayoutNode[]): Map<number, Point> => {
+    const nodeMap = indexNodes(nodes);
+    const positions = new Map<number, Point>();
+
+    const leafCounts = new Map<number, number>();
+    const countLeaves = (nodeId: number): number => {
+        const { children } = nodeMap.get(nodeId)!;
+        const count = children.length === 0 ? 1 : children.reduce((sum, childId) => sum + countLeaves(childId), 0);
+        leafCounts.set(nodeId, count);
+        return count;
+    };
+
+    const rootId = nodes[0].id;
+    countLeaves(rootId);
+
+    const positionNode = (nodeId: number, startAngle: number, sweep: number, depth: number) => {
+        const angle = startAngle + sweep / 2;
+        const radius = depth * RING_SPACING;
+        positions.set(nodeId, { x: radius * Math.cos(angle), y: radius * Math.sin(angle) });
+
+        let childStart = startAngle;
+        nodeMap.get(nodeId)!.children.forEach(childId => {
+            const childSweep = sweep * leafCounts.get(childId)! / leafCounts.get(nodeId)!;
+            positionNode(childId, childStart, childSweep, depth + 1);
+            childStart += childSweep;
+        });
+    };
+
+    // start at the top and go clockwise, a lone chain of nodes points straight down
+    positionNode(rootId, -Math.PI / 2, Math.PI * 2, 0);
+    return positions;
+};
+
+export const LAYOUTS: TreeLayout[] = [
+    { name: 'columns', label: 'Columns', layout: columnsLayout },
+    { name: 'tidy', label: 'Tidy Tree', layout: tidyLayout },
+    { name: 'horizontal', label: 'Left to Right', layout: horizontalLayout },
+    { name: 'radial', label: 'Radial', layout: radialLayout },
+];
+
+export const getLayout = (name: LayoutName): TreeLayout => {
+    return LAYOUTS.find(layout => layout.name === name)!;
+};
@@ -0,0 +1,109 @@
+import type { Trie, TrieNode } from "./Trie";
+
+export type ScanMatch = {
+    word: string;
+    start: number;  // in keys of the normalized text
+    end: number;    // exclusive
+};
+
+export type FailureLink = {
+    from: string;  // prefix of the node the link leaves
+    to: string;
+};
+
+// what the automaton does with one key of the text
+export type ScanStep = {
+    index: number;         // of the key in the normalized text
+    key: string;
+    jumps: FailureLink[];  // failure links followed before the key could be taken
+    state: string;         // prefix of the node the automaton ends up on
+    matches: ScanMatch[];  // words ending at this key, longest first
+};
+
+// the trie's words as a multi-pattern matcher, built from a snapshot of the trie as it is now
+export class AhoCorasick {
+    readonly trie: Trie;
+    // longest proper suffix of a node's prefix that is also a prefix in the trie
+    private failure = new Map<TrieNode, TrieNode>();
+    // nearest node down the failure chain that ends a word, so matches are found without walking it all
+    private output = new Map<TrieNode, TrieNode | null>();
+
+    constructor(trie: Trie) {
+        this.trie = trie;
+        const root = trie.getRoot();
+        this.failure.set(root, root);
+        this.output.set(root, null);
+
+        // breadth first, so a node's failure target is always finished before the node
+        const queue: TrieNode[] = [root];
+        for (let head = 0; head < queue.length; head++) {
+            const node = queue[head];
+            for (const [key, child] of node.children) {
+                this.failure.set(child, node === root ? root : this.transition(this.failure.get(node)!, key).node);
+                const target = this.failure.get(child)!;
+                this.output.set(child, target.isEndOfWord ? target : this.output.get(target)!);
+                queue.push(child);
+            }
+        }
+    }
+
+    failureOf(prefix: string): string | null {
+        const node = this.trie.getNode(prefix);
+        return node ? this.failure.get(node)?.prefix ?? null : null;
+    }
+
+    outputOf(prefix: string): string | null {
+        const node = this.trie.getNode(prefix);
+        return node ? this.output.get(node)?.prefix ?? null : null;
+    }
+
+    // every failure link that does not fall straight back to the root
+    failureLinks(): FailureLink[] {
+        const links: FailureLink[] = [];
+        const root = this.trie.getRoot();
+        this.failure.forEach((target, node) => {
+            if (node !== root && target !== root) links.push({ from: node.prefix, to: target.prefix });
+        });
+        return links;
+    }
+
+    // run the whole text through the automaton, one step per key
+    scan(text: string): ScanStep[] {
+        const root = this.trie.getRoot();
+        const steps: ScanStep[] = [];
+        let state = root;
+
+        this.trie.keys(text).forEach((key, index) => {
+            const { node, jumps } = this.transition(state, key);
+            state = node;
+
+            const matches: ScanMatch[] = [];
+            let found = state.isEndOfWord ? state : this.output.get(state)!;
+            while (found) {
+                const length = this.trie.normalizer.segment(found.prefix).length;
+                matches.push({ word: found.prefix, start: index + 1 - length, end: index + 1 });
+                found = this.output.get(found)!;
+            }
+            steps.push({ index, key, jumps, state: state.prefix, matches });
+        });
+        return steps;
+    }
+
+    // every stored word in the text, in the order the scan reports them
+    search(text: string): ScanMatch[] {
+        return this.scan(text).flatMap(step => step.matches);
+    }
+
+    // follow failure links until the key can be taken, the root takes any key by staying put
+    private transition(from: TrieNode, key: string): { node: TrieNode, jumps: FailureLink[] } {
+        const root = this.trie.getRoot();
+        const jumps: FailureLink[] = [];
+        let node = from;
+        while (node !== root && !node.children.has(key)) {
+            const target = this.failure.get(node)!;
+            jumps.push({ from: node.prefix, to: target.prefix });
+            node = target;
+        }
+        return { node: node.children.get(key) ?? root, jumps };
+    }
+}
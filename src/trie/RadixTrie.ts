@@ -0,0 +1,308 @@
+import { Normalizer } from "./normalization";
+import { nextNodeId } from "./nodeId";
+import { setChildInOrder } from "./childOrder";
+
+export class RadixNode {
+    readonly id: number;      // unique for the lifetime of the node
+    readonly prefix: string;  // full text from the root, unchanged by splits and merges around it
+    label: string;  // characters on the edge coming from the parent
+    children: Map<string, RadixNode>;  // keyed by the first character of the child's label, sorted
+    isEndOfWord: boolean;
+    shapeVersion: number;  // like TrieNode.shapeVersion, also changed when the node's own label is
+
+    constructor(label: string = '', prefix: string = label) {
+        this.id = nextNodeId();
+        this.prefix = prefix;
+        this.label = label;
+        this.children = new Map<string, RadixNode>();
+        this.isEndOfWord = false;
+        this.shapeVersion = 0;
+    }
+}
+
+export type RadixChange = 'visit' | 'create' | 'split' | 'merge' | 'mark-end' | 'unmark-end' | 'prune';
+
+// called after every change with the full prefix of the node it touched
+export type RadixListener = (change: RadixChange, prefix: string, label: string) => void;
+
+export class RadixTrie {
+    private root: RadixNode;
+    readonly normalizer: Normalizer;
+    private version = 0;
+    private shapeVersion = 0;
+
+    // shares the normalizer of the trie it mirrors, so both store the same keys
+    constructor(normalizer: Normalizer = new Normalizer()) {
+        this.root = new RadixNode();
+        this.normalizer = normalizer;
+    }
+
+    // add word into the radix trie, splitting edges where the word branches off
+    insert(input: string, onChange?: RadixListener): void {
+        const word = this.normalizer.normalize(input);
+        // the root never ends a word
+        if (!word) return;
+
+        let currentNode = this.root;
+        let prefix = '';
+        onChange?.('visit', prefix, 'root');
+
+        while (prefix.length < word.length) {
+            const rest = word.slice(prefix.length);
+            const child = currentNode.children.get(this.firstChar(rest));
+
+            // nothing shares the next character, hang the rest off this node
+            if (!child) {
+                currentNode = this.addLeaf(word)!;
+                prefix = word;
+                onChange?.('create', prefix, currentNode.label);
+                break;
+            }
+
+            const shared = this.commonPrefixLength(child.label, rest);
+            prefix += rest.slice(0, shared);
+
+            if (shared < child.label.length) {
+                // the word leaves this edge part way, so split it
+                currentNode = this.splitAt(prefix)!;
+                onChange?.('split', prefix, currentNode.label);
+            } else {
+                currentNode = child;
+                onChange?.('visit', prefix, child.label);
+            }
+        }
+
+        // mark end of word
+        if (!currentNode.isEndOfWord) {
+            currentNode.isEndOfWord = true;
+            this.version++;
+            onChange?.('mark-end', prefix, currentNode.label);
+        }
+    }
+
+    // search full word from the radix trie
+    searchWord(word: string, onChange?: RadixListener): boolean {
+        const node = this.walk(this.normalizer.normalize(word), onChange);
+        return node !== null && node.isEndOfWord;
+    }
+
+    // search prefix, which may end part way along an edge
+    startsWith(prefix: string): boolean {
+        let currentNode = this.root;
+        let rest = this.normalizer.normalize(prefix);
+
+        while (rest.length > 0) {
+            const child = currentNode.children.get(this.firstChar(rest));
+            if (!child) return false;
+
+            const shared = this.commonPrefixLength(child.label, rest);
+            if (shared === rest.length) return true;
+            if (shared < child.label.length) return false;
+
+            rest = rest.slice(shared);
+            currentNode = child;
+        }
+        return true;
+    }
+
+    // remove word, pruning its leaf and merging nodes left with a single child
+    delete(input: string, onChange?: RadixListener): boolean {
+        const word = this.normalizer.normalize(input);
+        const node = this.walk(word, onChange);
+        if (!node || !node.isEndOfWord) return false;
+
+        node.isEndOfWord = false;
+        this.version++;
+        onChange?.('unmark-end', word, node.label);
+
+        if (node.children.size === 0) {
+            const parentPrefix = word.slice(0, word.length - node.label.length);
+            this.removeLeaf(word);
+            onChange?.('prune', word, node.label);
+
+            // the parent may now be a pointless pass-through node
+            const parent = this.findNode(parentPrefix);
+            if (parent && parent !== this.root && !parent.isEndOfWord && parent.children.size === 1) {
+                const merged = this.mergeAt(parentPrefix)!;
+                onChange?.('merge', parentPrefix, merged.label);
+            }
+        } else if (node.children.size === 1) {
+            const merged = this.mergeAt(word)!;
+            onChange?.('merge', word, merged.label);
+        }
+
+        return true;
+    }
+
+    // the prefix primitives below take normalized text, as reported to listeners
+
+    // node whose full prefix is exactly the given string
+    findNode(prefix: string): RadixNode | null {
+        return this.locate(prefix)?.node ?? null;
+    }
+
+    // split the edge that passes through prefix, returning the new middle node
+    splitAt(prefix: string): RadixNode | null {
+        let currentNode = this.root;
+        let rest = prefix;
+
+        while (rest.length > 0) {
+            const child = currentNode.children.get(this.firstChar(rest));
+            if (!child) return null;
+
+            if (rest.length < child.label.length) {
+                if (!child.label.startsWith(rest)) return null;
+
+                const middle = new RadixNode(rest, prefix);
+                child.label = child.label.slice(rest.length);
+                middle.children.set(this.firstChar(child.label), child);
+                currentNode.children.set(this.firstChar(middle.label), middle);
+                this.reshaped(prefix);
+                child.shapeVersion = this.shapeVersion;
+                return middle;
+            }
+
+            if (!rest.startsWith(child.label)) return null;
+            rest = rest.slice(child.label.length);
+            currentNode = child;
+        }
+        return null;
+    }
+
+    // fold a pass-through node into its only child, returning the child
+    mergeAt(prefix: string): RadixNode | null {
+        const located = this.locate(prefix);
+        if (!located || !located.parent) return null;
+
+        const { parent, node } = located;
+        if (node.isEndOfWord || node.children.size !== 1) return null;
+
+        const [child] = node.children.values();
+        child.label = node.label + child.label;
+        parent.children.set(this.firstChar(child.label), child);
+        this.reshaped(child.prefix);
+        return child;
+    }
+
+    // add an empty leaf for prefix below the deepest existing node
+    addLeaf(prefix: string): RadixNode | null {
+        let currentNode = this.root;
+        let rest = prefix;
+
+        while (rest.length > 0) {
+            const child = currentNode.children.get(this.firstChar(rest));
+            if (!child) {
+                const leaf = new RadixNode(rest, prefix);
+                setChildInOrder(currentNode.children, this.firstChar(rest), leaf);
+                this.reshaped(prefix);
+                return leaf;
+            }
+
+            if (!rest.startsWith(child.label)) return null;
+            rest = rest.slice(child.label.length);
+            currentNode = child;
+        }
+        return null;
+    }
+
+    // remove the leaf whose full prefix is prefix
+    removeLeaf(prefix: string): boolean {
+        const located = this.locate(prefix);
+        if (!located || !located.parent || located.node.children.size > 0) return false;
+
+        located.parent.children.delete(this.firstChar(located.node.label));
+        this.reshaped(prefix);
+        return true;
+    }
+
+    setEndOfWord(prefix: string, isEndOfWord: boolean): void {
+        const node = this.findNode(prefix);
+        if (!node) return;
+        node.isEndOfWord = isEndOfWord;
+        this.version++;
+    }
+
+    // goes up with every change, like Trie.getVersion
+    getVersion(): number {
+        return this.version;
+    }
+
+    // like Trie.getShapeVersion, goes up when nodes or edge labels change
+    getShapeVersion(): number {
+        return this.shapeVersion;
+    }
+
+    getRoot(): RadixNode {
+        return this.root;
+    }
+
+    // count a change to the nodes, noting it on every node from the root down to where it happened
+    private reshaped(prefix: string): void {
+        this.version++;
+        this.shapeVersion++;
+
+        let node = this.root;
+        let rest = prefix;
+        node.shapeVersion = this.shapeVersion;
+        while (rest.length > 0) {
+            const child = node.children.get(this.firstChar(rest));
+            if (!child || !rest.startsWith(child.label)) return;
+            child.shapeVersion = this.shapeVersion;
+            rest = rest.slice(child.label.length);
+            node = child;
+        }
+    }
+
+    // follow whole edges down to the node for word, reporting each visit
+    private walk(word: string, onChange?: RadixListener): RadixNode | null {
+        let currentNode = this.root;
+        let prefix = '';
+        onChange?.('visit', prefix, 'root');
+
+        while (prefix.length < word.length) {
+            const rest = word.slice(prefix.length);
+            const child = currentNode.children.get(this.firstChar(rest));
+            if (!child || !rest.startsWith(child.label)) return null;
+
+            prefix += child.label;
+            currentNode = child;
+            onChange?.('visit', prefix, child.label);
+        }
+        return currentNode;
+    }
+
+    private locate(prefix: string): { parent: RadixNode | null, node: RadixNode } | null {
+        let parent: RadixNode | null = null;
+        let currentNode = this.root;
+        let rest = prefix;
+
+        while (rest.length > 0) {
+            const child = currentNode.children.get(this.firstChar(rest));
+            if (!child || !rest.startsWith(child.label)) return null;
+
+            rest = rest.slice(child.label.length);
+            parent = currentNode;
+            currentNode = child;
+        }
+        return { parent, node: currentNode };
+    }
+
+    // first key of a string, so astral characters and graphemes are not cut in half
+    private firstChar(text: string): string {
+        return this.normalizer.segment(text)[0];
+    }
+
+    // number of code units two strings share at the start, counted per key
+    private commonPrefixLength(a: string, b: string): number {
+        const bKeys = this.normalizer.segment(b);
+        let length = 0;
+        let index = 0;
+
+        for (const key of this.normalizer.segment(a)) {
+            if (key !== bKeys[index]) break;
+            length += key.length;
+            index++;
+        }
+        return length;
+    }
+}
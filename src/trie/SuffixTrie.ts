@@ -0,0 +1,57 @@
+import { Trie, type TrieNode } from "./Trie";
+import type { NormalizationOptions } from "./normalization";
+
+// every suffix of a text in one trie, so any substring is a prefix of some stored suffix
+export class SuffixTrie {
+    readonly source: string; // as given, so the trie can be rebuilt under another policy
+    readonly text: string;   // normalized
+    readonly trie: Trie;
+    private length: number;  // in keys
+
+    constructor(text: string, normalization: Partial<NormalizationOptions> = {}) {
+        this.source = text;
+        this.trie = new Trie(normalization);
+        const keys = this.trie.keys(text);
+        this.text = keys.join('');
+        this.length = keys.length;
+
+        for (let start = 0; start < keys.length; start++) {
+            this.trie.insert(keys.slice(start).join(''));
+        }
+    }
+
+    contains(pattern: string): boolean {
+        return this.trie.startsWith(pattern);
+    }
+
+    // suffixes are all different, so the words passing through a node are the occurrences of its prefix
+    count(pattern: string): number {
+        return this.trie.getNode(pattern)?.passCount ?? 0;
+    }
+
+    // where each occurrence starts, in keys from the start of the text
+    occurrences(pattern: string): number[] {
+        return this.trie.words(pattern)
+            .map(suffix => this.length - this.trie.keys(suffix).length)
+            .sort((a, b) => a - b);
+    }
+
+    // the deepest node at least two suffixes run through
+    longestRepeatedSubstring(): string {
+        let longest = '';
+        let longestDepth = 0;
+
+        const walk = (node: TrieNode, depth: number) => {
+            if (node.passCount < 2) return;
+            if (depth > longestDepth) {
+                longest = node.prefix;
+                longestDepth = depth;
+            }
+            for (const child of node.children.values()) {
+                walk(child, depth + 1);
+            }
+        };
+        walk(this.trie.getRoot(), 0);
+        return longest;
+    }
+}
@@ -1,38 +1,134 @@
+import { Normalizer, type NormalizationOptions } from "./normalization";
+import { nextNodeId } from "./nodeId";
+import { setChildInOrder } from "./childOrder";
+import { estimateMemory, type TrieStatistics } from "./statistics";
+
 export class TrieNode {
-    children: Map<string, TrieNode>;
+    readonly id: number;      // unique for the lifetime of the node
+    readonly prefix: string;  // every key from the root down to this node
+    children: Map<string, TrieNode>;  // sorted by key
     isEndOfWord: boolean;
+    weight: number;  // how many times the word ending here was inserted
+    passCount: number;    // stored words whose keys run through this node, including one ending here
+    subtreeSize: number;  // nodes in the subtree rooted here, including this one
+    shapeVersion: number; // the trie's shape version when a node at or below this one last came or went
 
-    constructor() {
+    constructor(prefix: string = '') {
+        this.id = nextNodeId();
+        this.prefix = prefix;
         this.children = new Map<string, TrieNode>();
         this.isEndOfWord = false;
+        this.weight = 0;
+        this.passCount = 0;
+        this.subtreeSize = 1;
+        this.shapeVersion = 0;
     }
 }
 
+export type Completion = {
+    word: string;
+    weight: number;
+};
+
+export type FuzzyMatch = {
+    word: string;
+    distance: number;
+};
+
+export type TrieEventType = 'node-created' | 'word-marked' | 'word-unmarked' | 'node-pruned';
+
+export type TrieEvent = {
+    type: TrieEventType;
+    path: string[];   // keys from root to the node that changed
+    weight: number;   // weight of the word at the node after the change
+};
+
+export type TrieListener = (event: TrieEvent) => void;
+
+// called for every node fuzzy search computes a row for, pruned when its subtree is skipped
+export type FuzzyVisitor = (prefix: string, pruned: boolean) => void;
+
+// called for every node an ordered query steps on, the root included
+export type QueryVisitor = (prefix: string) => void;
+
 export class Trie {
     private root: TrieNode;
+    readonly normalizer: Normalizer;
+    private listeners = new Set<TrieListener>();
+    private wordTotal = 0;
+    private version = 0;
+    private shapeVersion = 0;
 
-    constructor() {
+    constructor(normalization: Partial<NormalizationOptions> = {}) {
         this.root = new TrieNode();
+        this.normalizer = new Normalizer(normalization);
+    }
+
+    // the keys a word is stored under, after normalization
+    keys(word: string): string[] {
+        return this.normalizer.keys(word);
+    }
+
+    normalize(word: string): string {
+        return this.normalizer.normalize(word);
+    }
+
+    // get told about every change to the structure, returns a function that stops listening
+    subscribe(listener: TrieListener): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    // goes up with every change, so views can tell a mutated trie apart from the same old one
+    getVersion(): number {
+        return this.version;
     }
 
-    // add word into trie
-    insert(word: string): void {
+    // goes up only when nodes come or go, marking words leaves the shape alone
+    getShapeVersion(): number {
+        return this.shapeVersion;
+    }
+
+    // add word into trie, weight is how many inserts it counts for
+    insert(word: string, weight: number = 1): void {
+        // checked before any node is made, a weightless word would leave a path no word ends on
+        if (!Number.isInteger(weight) || weight < 1) {
+            throw new RangeError(`Word weight must be a positive integer, got ${weight}`);
+        }
+
+        const path: string[] = [];
+        const nodes = [this.root];
+        let created = 0;
         let currentNode = this.root;
-        for (const char of word) {
-            if (!currentNode.children.has(char)) {
-                currentNode.children.set(char, new TrieNode());
+        for (const char of this.keys(word)) {
+            path.push(char);
+            let child = currentNode.children.get(char);
+            if (!child) {
+                child = new TrieNode(currentNode.prefix + char);
+                setChildInOrder(currentNode.children, char, child);
+                created++;
+                this.emit('node-created', path, 0);
             }
-            currentNode = currentNode.children.get(char)!;
+            nodes.push(child);
+            currentNode = child;
         }
-        // mark end of word
-        currentNode.isEndOfWord = true;
+
+        // new nodes only ever hang below old ones, so each node on the path gains the new ones under it
+        nodes.forEach((node, depth) => {
+            node.subtreeSize += Math.min(created, nodes.length - 1 - depth);
+        });
+
+        // mark end of word, repeated inserts make the word heavier
+        this.setWeight(path, currentNode.weight + weight);
     }
 
     // search full word from trie
     searchWord(word: string): boolean {
         let currentNode = this.root;
 
-        for (const char of word) {
+        for (const char of this.keys(word)) {
             if (! currentNode.children.has(char)) return false;
             currentNode = currentNode.children.get(char)!;
         }
@@ -43,7 +139,7 @@ export class Trie {
     startsWith(prefix: string): boolean {
         let currentNode = this.root;
 
-        for (const char of prefix) {
+        for (const char of this.keys(prefix)) {
             if (!currentNode.children.has(char)) return false;
             currentNode = currentNode.children.get(char)!;
         }
@@ -52,48 +148,433 @@ export class Trie {
         return true;
     }
 
+    // how many times a word was inserted, 0 if it is not stored
+    getWeight(word: string): number {
+        const node = this.getNode(word);
+        return node?.isEndOfWord ? node.weight : 0;
+    }
+
+    // words under the prefix, heaviest first and then alphabetically
+    autocomplete(prefix: string, limit: number = 10): Completion[] {
+        const prefixNode = this.getNode(prefix);
+        if (!prefixNode) return [];
+
+        const completions: Completion[] = [];
+
+        // collect every word in the subtree below the prefix
+        const collect = (node: TrieNode, word: string) => {
+            if (node.isEndOfWord) {
+                completions.push({ word, weight: node.weight });
+            }
+            for (const [char, child] of node.children) {
+                collect(child, word + char);
+            }
+        };
+        collect(prefixNode, this.normalize(prefix));
+
+        completions.sort((a, b) => b.weight - a.weight || (a.word < b.word ? -1 : a.word > b.word ? 1 : 0));
+        return completions.slice(0, limit);
+    }
+
+    // words within maxDistance edits of word, building one Levenshtein row per node
+    fuzzySearch(word: string, maxDistance: number, onVisit?: FuzzyVisitor): FuzzyMatch[] {
+        const target = this.keys(word);
+        const matches: FuzzyMatch[] = [];
+
+        // the root row is the cost of building the target from nothing
+        const firstRow = target.map((_, index) => index + 1);
+        firstRow.unshift(0);
+        onVisit?.('', false);
+
+        const search = (node: TrieNode, char: string, prefix: string, previousRow: number[]) => {
+            const row = [previousRow[0] + 1];
+
+            for (let column = 1; column <= target.length; column++) {
+                const insertCost = row[column - 1] + 1;
+                const deleteCost = previousRow[column] + 1;
+                const replaceCost = previousRow[column - 1] + (target[column - 1] === char ? 0 : 1);
+                row.push(Math.min(insertCost, deleteCost, replaceCost));
+            }
+
+            const distance = row[target.length];
+            if (node.isEndOfWord && distance <= maxDistance) {
+                matches.push({ word: prefix, distance });
+            }
+
+            // no cell is within budget, so nothing below can be either
+            if (Math.min(...row) > maxDistance) {
+                onVisit?.(prefix, true);
+                return;
+            }
+
+            onVisit?.(prefix, false);
+            for (const [childChar, child] of node.children) {
+                search(child, childChar, prefix + childChar, row);
+            }
+        };
+
+        for (const [char, child] of this.root.children) {
+            search(child, char, char, firstRow);
+        }
+
+        matches.sort((a, b) => a.distance - b.distance || (a.word < b.word ? -1 : a.word > b.word ? 1 : 0));
+        return matches;
+    }
+
+    // words matching a pattern where ? or . stand for one character and * for any run of characters
+    match(pattern: string, onVisit?: (prefix: string) => void): string[] {
+        const tokens = this.keys(pattern);
+        const matches = new Set<string>();
+
+        // pattern positions already tried at each node, * can reach a node many ways
+        const seen = new Map<TrieNode, Set<number>>();
+
+        const walk = (node: TrieNode, prefix: string, index: number) => {
+            const tried = seen.get(node) ?? new Set<number>();
+            if (tried.has(index)) return;
+            if (tried.size === 0) onVisit?.(prefix);
+            tried.add(index);
+            seen.set(node, tried);
+
+            if (index === tokens.length) {
+                if (node.isEndOfWord) matches.add(prefix);
+                return;
+            }
+
+            const token = tokens[index];
+            if (token === '*') {
+                // either the star ends here, or it swallows one more character
+                walk(node, prefix, index + 1);
+                for (const [char, child] of node.children) {
+                    walk(child, prefix + char, index);
+                }
+            } else if (token === '?' || token === '.') {
+                // branch out to every child
+                for (const [char, child] of node.children) {
+                    walk(child, prefix + char, index + 1);
+                }
+            } else {
+                const child = node.children.get(token);
+                if (child) walk(child, prefix + token, index + 1);
+            }
+        };
+
+        walk(this.root, '', 0);
+        return [...matches].sort();
+    }
+
     // Remove word from prefix
     delete(word: string): boolean {
-        const helper = (node: TrieNode, word: string, index: number): boolean => {
-            // no word found
-            if (!node) return false;
+        const keys = this.keys(word);
+        const nodes = [this.root];
+
+        for (const char of keys) {
+            const child = nodes[nodes.length - 1].children.get(char);
+            if (!child) return false;
+            nodes.push(child);
+        }
 
-            // check if we found the entire word
-            if (index === word.length) {
-                // is this the entire word or just prefix (do not delete prefixes)
-                if (!node.isEndOfWord) return false;
+        // is this the entire word or just prefix (do not delete prefixes)
+        if (!nodes[keys.length].isEndOfWord) return false;
+        this.setWeight(keys, 0);
 
-                // otherwise, un mark the end of this word
-                node.isEndOfWord = false;
+        // prune from the bottom while nodes are left without a word or children
+        for (let depth = keys.length; depth > 0; depth--) {
+            const node = nodes[depth];
+            if (node.isEndOfWord || node.children.size > 0) break;
+            this.pruneNode(keys.slice(0, depth));
+        }
+        return true;
+    }
 
-                // return true if current node doesn't have any other children
-                return node.children.size === 0;
+    // the key path primitives below change one node at a time and report it to listeners
+
+    // add an empty child at path, returning it, or null when it exists or has no parent
+    addNode(path: string[]): TrieNode | null {
+        const parent = this.getNode(path.slice(0, -1));
+        const char = path[path.length - 1];
+        if (!parent || char === undefined || parent.children.has(char)) return null;
+
+        const node = new TrieNode(parent.prefix + char);
+        setChildInOrder(parent.children, char, node);
+        this.nodesAlong(path.slice(0, -1)).forEach(ancestor => ancestor.subtreeSize++);
+        this.emit('node-created', path, 0);
+        return node;
+    }
+
+    // remove the leaf at path, nodes that still have children or a word are left alone
+    pruneNode(path: string[]): boolean {
+        const parent = this.getNode(path.slice(0, -1));
+        const char = path[path.length - 1];
+        const node = parent?.children.get(char);
+        if (!parent || !node || node.isEndOfWord || node.children.size > 0) return false;
+
+        parent.children.delete(char);
+        this.nodesAlong(path.slice(0, -1)).forEach(ancestor => ancestor.subtreeSize--);
+        this.emit('node-pruned', path, 0);
+        return true;
+    }
+
+    // a node ends a word exactly when it carries weight
+    setWeight(path: string[], weight: number): void {
+        const node = this.getNode(path);
+        if (!node || path.length === 0) return;
+
+        const wasEndOfWord = node.isEndOfWord;
+        node.weight = Math.max(0, weight);
+        node.isEndOfWord = node.weight > 0;
+
+        if (node.isEndOfWord) {
+            if (!wasEndOfWord) {
+                this.wordTotal++;
+                this.nodesAlong(path).forEach(passed => passed.passCount++);
+            }
+            this.emit('word-marked', path, node.weight);
+        } else if (wasEndOfWord) {
+            this.wordTotal--;
+            this.nodesAlong(path).forEach(passed => passed.passCount--);
+            this.emit('word-unmarked', path, 0);
+        }
+    }
+
+    // every stored word below the prefix, in alphabetical order
+    words(prefix: string = ''): string[] {
+        const prefixNode = this.getNode(prefix);
+        if (!prefixNode) return [];
+
+        const words: string[] = [];
+        const collect = (node: TrieNode, word: string) => {
+            if (node.isEndOfWord) words.push(word);
+            for (const [char, child] of node.children) {
+                collect(child, word + char);
+            }
+        };
+        collect(prefixNode, this.normalize(prefix));
+        return words;
+    }
+
+    // number of distinct words stored
+    wordCount(): number {
+        return this.wordTotal;
+    }
+
+    // the ordered queries below lean on sorted children and on passCount to skip whole subtrees
+
+    // words below the prefix in alphabetical order, walking only as far as the caller reads
+    *wordsInOrder(prefix: string = '', onVisit?: QueryVisitor): Generator<string> {
+        const prefixNode = this.walk(this.keys(prefix), onVisit);
+        if (!prefixNode) return;
+
+        const stack: TrieNode[] = [prefixNode];
+        while (stack.length > 0) {
+            const node = stack.pop()!;
+            if (node !== prefixNode) onVisit?.(node.prefix);
+            if (node.isEndOfWord) yield node.prefix;
+            // pushed backwards so the smallest child comes off first
+            stack.push(...[...node.children.values()].reverse());
+        }
+    }
+
+    // stored words starting with the prefix, read off the node it ends at
+    countWithPrefix(prefix: string, onVisit?: QueryVisitor): number {
+        return this.walk(this.keys(prefix), onVisit)?.passCount ?? 0;
+    }
+
+    // the word at index k in alphabetical order, counting from 0
+    kthWord(k: number, onVisit?: QueryVisitor): string | null {
+        if (!Number.isInteger(k) || k < 0 || k >= this.wordTotal) return null;
+
+        let node = this.root;
+        let remaining = k;
+        onVisit?.('');
+        for (;;) {
+            if (node.isEndOfWord) {
+                if (remaining === 0) return node.prefix;
+                remaining--;
+            }
+            // step over every child whose words all come before the one we want
+            let next: TrieNode | null = null;
+            for (const child of node.children.values()) {
+                if (remaining < child.passCount) {
+                    next = child;
+                    break;
+                }
+                remaining -= child.passCount;
+            }
+            if (!next) return null;
+            node = next;
+            onVisit?.(node.prefix);
+        }
+    }
+
+    // how many stored words come before the word, which is its index when it is stored
+    rank(word: string, onVisit?: QueryVisitor): number {
+        let node = this.root;
+        let smaller = 0;
+        onVisit?.('');
+        for (const char of this.keys(word)) {
+            // a word ending here is a prefix of the word, and so comes first
+            if (node.isEndOfWord) smaller++;
+            for (const [key, child] of node.children) {
+                if (key >= char) break;
+                smaller += child.passCount;
+            }
+            const child = node.children.get(char);
+            if (!child) break;
+            node = child;
+            onVisit?.(node.prefix);
+        }
+        return smaller;
+    }
+
+    // stored words from low to high, both included, in alphabetical order
+    wordsBetween(low: string, high: string, onVisit?: QueryVisitor): string[] {
+        const lowKeys = this.keys(low);
+        const highKeys = this.keys(high);
+        const words: string[] = [];
+
+        // onLow and onHigh say whether the path so far still equals the start of that bound
+        const collect = (node: TrieNode, depth: number, onLow: boolean, onHigh: boolean) => {
+            onVisit?.(node.prefix);
+            // a proper prefix of low sorts before it
+            if (node.isEndOfWord && !(onLow && depth < lowKeys.length)) words.push(node.prefix);
+
+            for (const [key, child] of node.children) {
+                // anything longer than high sorts after it
+                if (onHigh && (depth >= highKeys.length || key > highKeys[depth])) break;
+                const childOnLow = onLow && depth < lowKeys.length;
+                if (childOnLow && key < lowKeys[depth]) continue;
+
+                collect(child, depth + 1, childOnLow && key === lowKeys[depth], onHigh && key === highKeys[depth]);
             }
+        };
+        collect(this.root, 0, true, true);
+        return words;
+    }
+
+    // the prefix every stored word shares, empty when there are none
+    longestCommonPrefix(onVisit?: QueryVisitor): string {
+        let node = this.root;
+        onVisit?.('');
+        if (this.wordTotal === 0) return '';
 
-            // get current char
-            const char = word[index];
-            const childNode = node.children.get(char);
+        // a word ending here or a fork means the words part ways
+        while (!node.isEndOfWord && node.children.size === 1) {
+            [node] = node.children.values();
+            onVisit?.(node.prefix);
+        }
+        return node.prefix;
+    }
 
-            // exit early if next node is empty
-            if (!childNode) return false;
+    // the longest stored word the text starts with, or null when none fits
+    longestPrefixOf(text: string, onVisit?: QueryVisitor): string | null {
+        let node = this.root;
+        let longest: string | null = null;
+        onVisit?.('');
+        for (const char of this.keys(text)) {
+            const child = node.children.get(char);
+            if (!child) break;
+            node = child;
+            onVisit?.(node.prefix);
+            if (node.isEndOfWord) longest = node.prefix;
+        }
+        return longest;
+    }
 
-            // recursively delete from child nodes
-            const shouldDeleteChild = helper(childNode, word, index + 1);
+    // shape of the whole trie, walked fresh on every call
+    statistics(): TrieStatistics {
+        const branching = new Map<number, number>();
+        let nodes = 0;
+        let sharedNodes = 0;
+        let keysStored = 0;
+        let maxDepth = 0;
+        let keyLength = 0;
+        let prefixLength = 0;
+        let wordLength = 0;
 
-            if (shouldDeleteChild) {
-                node.children.delete(char);
+        const walk = (node: TrieNode, depth: number) => {
+            nodes++;
+            prefixLength += node.prefix.length;
+            maxDepth = Math.max(maxDepth, depth);
+            if (depth > 0 && node.passCount > 1) sharedNodes++;
+            // a word is the prefix of the node it ends at
+            if (node.isEndOfWord) {
+                keysStored += depth;
+                wordLength += node.prefix.length;
+            }
+            branching.set(node.children.size, (branching.get(node.children.size) ?? 0) + 1);
 
-                // return true if current node has no other children and is not end of word
-                return node.children.size === 0 && !node.isEndOfWord;
+            for (const [char, child] of node.children) {
+                keyLength += char.length;
+                walk(child, depth + 1);
             }
+        };
+        walk(this.root, 0);
 
-            return false;
+        return {
+            words: this.wordTotal,
+            nodes,
+            sharedNodes,
+            keysStored,
+            averageDepth: this.wordTotal > 0 ? keysStored / this.wordTotal : 0,
+            maxDepth,
+            branching,
+            memory: estimateMemory({
+                nodes, edges: nodes - 1, keyLength, prefixLength, wordLength, words: this.wordTotal
+            }),
         };
+    }
+
+    // follow a prefix down to its node, strings are normalized and key paths used as they are
+    getNode(prefix: string | string[]): TrieNode | null {
+        let currentNode = this.root;
 
-        return helper(this.root, word, 0);
+        for (const char of typeof prefix === 'string' ? this.keys(prefix) : prefix) {
+            const child = currentNode.children.get(char);
+            if (!child) return null;
+            currentNode = child;
+        }
+        return currentNode;
     }
 
     getRoot(): TrieNode {
         return this.root;
     }
+
+    // follow keys down from the root, telling the visitor about each node on the way
+    private walk(keys: string[], onVisit?: QueryVisitor): TrieNode | null {
+        let node = this.root;
+        onVisit?.('');
+        for (const char of keys) {
+            const child = node.children.get(char);
+            if (!child) return null;
+            node = child;
+            onVisit?.(node.prefix);
+        }
+        return node;
+    }
+
+    // the root and every node down to the end of an existing key path
+    private nodesAlong(path: string[]): TrieNode[] {
+        const nodes = [this.root];
+        for (const char of path) {
+            const child = nodes[nodes.length - 1].children.get(char);
+            if (!child) break;
+            nodes.push(child);
+        }
+        return nodes;
+    }
+
+    private emit(type: TrieEventType, path: string[], weight: number): void {
+        this.version++;
+        if (type === 'node-created' || type === 'node-pruned') {
+            this.shapeVersion++;
+            // every node above the change now holds a different subtree
+            this.nodesAlong(path).forEach(node => node.shapeVersion = this.shapeVersion);
+        }
+        if (this.listeners.size === 0) return;
+
+        const event: TrieEvent = { type, path: [...path], weight };
+        this.listeners.forEach(listener => listener(event));
+    }
 }
@@ -0,0 +1,287 @@
+import { Trie } from "./Trie";
+
+export type BenchmarkPhase = 'build' | 'lookup' | 'prefix' | 'delete';
+export type ContenderName = 'trie' | 'set' | 'sorted-array';
+
+export const BENCHMARK_PHASES: BenchmarkPhase[] = ['build', 'lookup', 'prefix', 'delete'];
+
+export const CONTENDER_LABELS: Record<ContenderName, string> = {
+    'trie': 'Trie',
+    'set': 'Set',
+    'sorted-array': 'Sorted array',
+};
+
+export type BenchmarkWorkload = {
+    words: string[];     // stored before the queries run, without duplicates
+    lookups: string[];   // about half of them are stored
+    prefixes: string[];
+    deletes: string[];   // stored words, each deleted once
+};
+
+export type BenchmarkResult = {
+    contender: ContenderName;
+    phase: BenchmarkPhase;
+    ms: number;
+    visits: number;  // nodes, entries or elements the phase touched
+};
+
+// the phase being run, reported whenever the run pauses so the page can show how far along it is
+export type BenchmarkProgress = {
+    contender: ContenderName;
+    phase: BenchmarkPhase;
+    done: number;   // phases finished so far, over every contender
+    total: number;
+};
+
+// the same operations on each structure, counting what they touch only when given a counter,
+// the timed runs go without one so counting never shows up in the timings
+type Contender<S> = {
+    name: ContenderName;
+    build: (words: string[], visits?: Counter) => S;
+    lookup: (structure: S, word: string, visits?: Counter) => boolean;
+    prefix: (structure: S, prefix: string, visits?: Counter) => string[];
+    delete: (structure: S, word: string, visits?: Counter) => boolean;
+};
+
+type Counter = { count: number };
+
+const SYLLABLES = ['ca', 're', 'to', 'in', 'st', 'er', 'an', 'on', 'ing', 'pre', 'con', 'de', 'al', 'ly', 'ter', 'ion', 'mo', 'un'];
+const LETTERS = 'abcdefghijklmnopqrstuvwxyz';
+
+// mulberry32, small and good enough to make runs repeatable
+export const createRandom = (seed: number): () => number => {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+const pick = <T>(items: T[], random: () => number): T => items[Math.floor(random() * items.length)];
+
+// words made of common syllables, so they share prefixes the way real words do
+export const generateWords = (count: number, seed: number): string[] => {
+    const random = createRandom(seed);
+    const words = new Set<string>();
+    // give up on uniqueness eventually, the syllables only make so many words
+    for (let attempt = 0; words.size < count && attempt < count * 10; attempt++) {
+        const length = 1 + Math.floor(random() * 4);
+        words.add(Array.from({ length }, () => pick(SYLLABLES, random)).join(''));
+    }
+    return [...words];
+};
+
+export const buildWorkload = (words: string[], queries: number, seed: number): BenchmarkWorkload => {
+    const random = createRandom(seed);
+    const unique = [...new Set(words)];
+    if (unique.length === 0) return { words: [], lookups: [], prefixes: [], deletes: [] };
+
+    const lookups = Array.from({ length: queries }, () => {
+        const word = pick(unique, random);
+        if (random() < 0.5) return word;
+
+        // a near miss, one letter swapped
+        const keys = [...word];
+        keys[Math.floor(random() * keys.length)] = pick([...LETTERS], random);
+        return keys.join('');
+    });
+
+    const prefixes = Array.from({ length: queries }, () => {
+        const keys = [...pick(unique, random)];
+        return keys.slice(0, 1 + Math.floor(random() * Math.min(3, keys.length))).join('');
+    });
+
+    // Fisher-Yates, then the first few are deleted
+    const shuffled = [...unique];
+    for (let index = shuffled.length - 1; index > 0; index--) {
+        const other = Math.floor(random() * (index + 1));
+        [shuffled[index], shuffled[other]] = [shuffled[other], shuffled[index]];
+    }
+
+    return { words: unique, lookups, prefixes, deletes: shuffled.slice(0, Math.min(queries, unique.length)) };
+};
+
+const trieContender: Contender<Trie> = {
+    name: 'trie',
+    build: (words, visits) => {
+        const trie = new Trie();
+        words.forEach(word => {
+            if (visits) visits.count += trie.keys(word).length;
+            trie.insert(word);
+        });
+        return trie;
+    },
+    lookup: (trie, word, visits) => {
+        // one node per key until the path runs out
+        let node = trie.getRoot();
+        for (const key of trie.keys(word)) {
+            const child = node.children.get(key);
+            if (!child) return false;
+            if (visits) visits.count++;
+            node = child;
+        }
+        return node.isEndOfWord;
+    },
+    prefix: (trie, prefix, visits) => {
+        if (visits) {
+            // the walk down plus every node below, which listing the words has to visit
+            const keys = trie.keys(prefix);
+            visits.count += keys.length + (trie.getNode(keys)?.subtreeSize ?? 0);
+        }
+        return trie.words(prefix);
+    },
+    delete: (trie, word, visits) => {
+        if (visits) {
+            // nodes only this word runs through are pruned on the way back up
+            let node = trie.getRoot();
+            for (const key of trie.keys(word)) {
+                const child = node.children.get(key);
+                if (!child) break;
+                visits.count += child.passCount === 1 ? 2 : 1;
+                node = child;
+            }
+        }
+        return trie.delete(word);
+    },
+};
+
+const setContender: Contender<Set<string>> = {
+    name: 'set',
+    build: (words, visits) => {
+        if (visits) visits.count += words.length;
+        return new Set(words);
+    },
+    lookup: (set, word, visits) => {
+        if (visits) visits.count++;
+        return set.has(word);
+    },
+    prefix: (set, prefix, visits) => {
+        // a hash set has no order, so every entry is checked
+        const matches: string[] = [];
+        for (const word of set) {
+            if (word.startsWith(prefix)) matches.push(word);
+        }
+        if (visits) visits.count += set.size;
+        return matches;
+    },
+    delete: (set, word, visits) => {
+        if (visits) visits.count++;
+        return set.delete(word);
+    },
+};
+
+// first index whose word is not below target
+const lowerBound = (words: string[], target: string, visits?: Counter): number => {
+    let low = 0;
+    let high = words.length;
+    while (low < high) {
+        const middle = (low + high) >>> 1;
+        if (visits) visits.count++;
+        if (words[middle] < target) {
+            low = middle + 1;
+        } else {
+            high = middle;
+        }
+    }
+    return low;
+};
+
+const compareWords = (a: string, b: string): number => a < b ? -1 : a > b ? 1 : 0;
+
+const sortedArrayContender: Contender<string[]> = {
+    name: 'sorted-array',
+    build: (words, visits) => {
+        if (!visits) return [...words].sort(compareWords);
+        return [...words].sort((a, b) => {
+            visits.count++;
+            return compareWords(a, b);
+        });
+    },
+    lookup: (words, word, visits) => words[lowerBound(words, word, visits)] === word,
+    prefix: (words, prefix, visits) => {
+        // matches sit next to each other from where the prefix would be inserted
+        const start = lowerBound(words, prefix, visits);
+        let index = start;
+        while (index < words.length && words[index].startsWith(prefix)) index++;
+        if (visits) visits.count += index - start;
+        return words.slice(start, index);
+    },
+    delete: (words, word, visits) => {
+        const index = lowerBound(words, word, visits);
+        if (words[index] !== word) return false;
+
+        // everything after the word shifts down one place
+        if (visits) visits.count += words.length - index;
+        words.splice(index, 1);
+        return true;
+    },
+};
+
+const PHASE_COUNT = Object.keys(CONTENDER_LABELS).length * BENCHMARK_PHASES.length;
+
+const now = (): number => typeof performance !== 'undefined' ? performance.now() : Date.now();
+
+// the longest the operations run before handing the main thread back, the clock is read every few operations
+const SLICE_MS = 50;
+const SLICE_CHECK = 64;
+
+// run operate on every item in slices, yielding progress between them, returns the time spent inside the slices
+function* runSliced<T>(
+    items: T[], operate: (item: T) => void, progress: BenchmarkProgress
+): Generator<BenchmarkProgress, number, void> {
+    let ms = 0;
+    let index = 0;
+    while (index < items.length) {
+        const start = now();
+        do {
+            operate(items[index]);
+            index++;
+        } while (index < items.length && (index % SLICE_CHECK !== 0 || now() - start < SLICE_MS));
+        ms += now() - start;
+        if (index < items.length) yield progress;
+    }
+    return ms;
+}
+
+// each phase runs twice against fresh copies of the words, timed without counting and then counted untimed
+function* runContender<S>(
+    contender: Contender<S>, workload: BenchmarkWorkload, results: BenchmarkResult[]
+): Generator<BenchmarkProgress, void, void> {
+    const progress = (phase: BenchmarkPhase): BenchmarkProgress => ({
+        contender: contender.name, phase, done: results.length, total: PHASE_COUNT
+    });
+
+    // building is a single call, so it is the one phase that cannot be split up
+    yield progress('build');
+    const start = now();
+    const timed = contender.build(workload.words);
+    const buildMs = now() - start;
+    const buildVisits: Counter = { count: 0 };
+    const counted = contender.build(workload.words, buildVisits);
+    results.push({ contender: contender.name, phase: 'build', ms: buildMs, visits: buildVisits.count });
+
+    const phases: [BenchmarkPhase, string[], (structure: S, item: string, visits?: Counter) => unknown][] = [
+        ['lookup', workload.lookups, contender.lookup],
+        ['prefix', workload.prefixes, contender.prefix],
+        ['delete', workload.deletes, contender.delete],
+    ];
+    for (const [phase, items, operate] of phases) {
+        yield progress(phase);
+        const ms = yield* runSliced(items, item => operate(timed, item), progress(phase));
+        const visits: Counter = { count: 0 };
+        yield* runSliced(items, item => operate(counted, item, visits), progress(phase));
+        results.push({ contender: contender.name, phase, ms, visits: visits.count });
+    }
+}
+
+// every contender in a fixed order, pausing often so the caller can give the main thread back
+export function* runBenchmark(workload: BenchmarkWorkload): Generator<BenchmarkProgress, BenchmarkResult[], void> {
+    const results: BenchmarkResult[] = [];
+    yield* runContender(trieContender, workload, results);
+    yield* runContender(setContender, workload, results);
+    yield* runContender(sortedArrayContender, workload, results);
+    return results;
+}
@@ -0,0 +1,15 @@
+// children are kept sorted by key, so every walk meets words in alphabetical order
+export const setChildInOrder = <T>(children: Map<string, T>, key: string, child: T): void => {
+    const isNewKey = !children.has(key);
+    children.set(key, child);
+    if (!isNewKey) return;
+
+    // a map appends new keys, which is only the right place for the largest one
+    const entries = [...children];
+    if (entries.every(([other]) => other <= key)) return;
+
+    children.clear();
+    entries
+        .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+        .forEach(([other, value]) => children.set(other, value));
+};
@@ -0,0 +1,192 @@
+import type { Trie } from "./Trie";
+import { exportWordsJson, importTrieJson } from "./serialization";
+
+const INDEX_KEY = 'trie-visualizer:dictionaries';
+const DICTIONARY_KEY_PREFIX = 'trie-visualizer:dictionary:';
+
+// the part of the Web Storage API the store needs
+export type KeyValueStorage = {
+    getItem(key: string): string | null;
+    setItem(key: string, value: string): void;
+    removeItem(key: string): void;
+};
+
+export type DictionaryInfo = {
+    id: string;
+    name: string;
+    updatedAt: number;
+};
+
+type DictionaryIndex = {
+    activeId: string | null;
+    dictionaries: DictionaryInfo[];
+};
+
+// thrown when the browser refuses to store a dictionary, usually because it is full
+export class DictionaryStorageError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'DictionaryStorageError';
+    }
+}
+
+// stands in when localStorage is missing or blocked, dictionaries then last as long as the page
+export class MemoryStorage implements KeyValueStorage {
+    private items = new Map<string, string>();
+
+    getItem(key: string): string | null {
+        return this.items.get(key) ?? null;
+    }
+
+    setItem(key: string, value: string): void {
+        this.items.set(key, value);
+    }
+
+    removeItem(key: string): void {
+        this.items.delete(key);
+    }
+}
+
+// localStorage when the browser lets us use it
+export const browserStorage = (): KeyValueStorage => {
+    try {
+        if (typeof window !== 'undefined' && window.localStorage) {
+            const probe = `${INDEX_KEY}:probe`;
+            window.localStorage.setItem(probe, probe);
+            window.localStorage.removeItem(probe);
+            return window.localStorage;
+        }
+    } catch {
+        // private modes may throw on any access
+    }
+    return new MemoryStorage();
+};
+
+const isDictionaryInfo = (value: unknown): value is DictionaryInfo => {
+    if (typeof value !== 'object' || value === null) return false;
+    const info = value as Record<string, unknown>;
+    return typeof info.id === 'string' && typeof info.name === 'string' && typeof info.updatedAt === 'number';
+};
+
+// named tries kept in browser storage, each saved as its words and weights
+export class DictionaryStore {
+    private storage: KeyValueStorage;
+    private index: DictionaryIndex;
+
+    constructor(storage: KeyValueStorage) {
+        this.storage = storage;
+        this.index = this.readIndex();
+    }
+
+    list(): DictionaryInfo[] {
+        return [...this.index.dictionaries];
+    }
+
+    getActiveId(): string | null {
+        return this.index.activeId;
+    }
+
+    get(id: string): DictionaryInfo | null {
+        return this.index.dictionaries.find(dictionary => dictionary.id === id) ?? null;
+    }
+
+    // the stored trie, or null when it is missing, throws a TrieFormatError when it can no longer be read
+    load(id: string): Trie | null {
+        const json = this.storage.getItem(DICTIONARY_KEY_PREFIX + id);
+        if (json === null) return null;
+        return importTrieJson(json);
+    }
+
+    save(id: string, trie: Trie): void {
+        const info = this.get(id);
+        if (!info) return;
+
+        this.write(DICTIONARY_KEY_PREFIX + id, exportWordsJson(trie));
+        info.updatedAt = Date.now();
+        this.writeIndex();
+    }
+
+    create(name: string, trie: Trie): DictionaryInfo {
+        const info: DictionaryInfo = { id: this.newId(), name: this.uniqueName(name), updatedAt: Date.now() };
+        this.write(DICTIONARY_KEY_PREFIX + info.id, exportWordsJson(trie));
+        this.index.dictionaries.push(info);
+        this.writeIndex();
+        return info;
+    }
+
+    rename(id: string, name: string): void {
+        const info = this.get(id);
+        if (!info || info.name === name) return;
+
+        info.name = this.uniqueName(name);
+        this.writeIndex();
+    }
+
+    duplicate(id: string): DictionaryInfo | null {
+        const info = this.get(id);
+        const trie = this.load(id);
+        if (!info || !trie) return null;
+        return this.create(`${info.name} copy`, trie);
+    }
+
+    remove(id: string): void {
+        this.storage.removeItem(DICTIONARY_KEY_PREFIX + id);
+        this.index.dictionaries = this.index.dictionaries.filter(dictionary => dictionary.id !== id);
+        if (this.index.activeId === id) this.index.activeId = null;
+        this.writeIndex();
+    }
+
+    setActive(id: string): void {
+        if (!this.get(id)) return;
+        this.index.activeId = id;
+        this.writeIndex();
+    }
+
+    private readIndex(): DictionaryIndex {
+        try {
+            const data: unknown = JSON.parse(this.storage.getItem(INDEX_KEY) ?? 'null');
+            if (typeof data === 'object' && data !== null) {
+                const { activeId, dictionaries } = data as Record<string, unknown>;
+                const valid = Array.isArray(dictionaries) ? dictionaries.filter(isDictionaryInfo) : [];
+                return {
+                    activeId: typeof activeId === 'string' && valid.some(info => info.id === activeId) ? activeId : null,
+                    dictionaries: valid,
+                };
+            }
+        } catch {
+            // a broken index starts over rather than blocking the page
+        }
+        return { activeId: null, dictionaries: [] };
+    }
+
+    private writeIndex(): void {
+        this.write(INDEX_KEY, JSON.stringify(this.index));
+    }
+
+    private write(key: string, value: string): void {
+        try {
+            this.storage.setItem(key, value);
+        } catch {
+            throw new DictionaryStorageError('the browser storage is full or unavailable');
+        }
+    }
+
+    // names are how dictionaries are told apart in the manager, so they stay unique
+    private uniqueName(name: string): string {
+        const base = name.trim() || 'Untitled';
+        const taken = new Set(this.index.dictionaries.map(dictionary => dictionary.name));
+        if (!taken.has(base)) return base;
+
+        let suffix = 2;
+        while (taken.has(`${base} ${suffix}`)) suffix++;
+        return `${base} ${suffix}`;
+    }
+
+    private newId(): string {
+        let id: string;
+        do {
+            id = Math.random().toString(36).slice(2, 10);
+        } while (this.get(id));
+        return id;
+    }
+}
@@ -0,0 +1,94 @@
+import type { Trie } from "./Trie";
+
+export type TrieCommand =
+    | { type: 'insert', word: string, previousWeight: number }
+    | { type: 'delete', word: string, previousWeight: number }
+    | { type: 'replace', label: string, before: Trie, after: Trie };  // reset and import
+
+// undo and redo stacks, a new command drops everything that was undone
+export class CommandHistory<T> {
+    private undoStack: T[] = [];
+    private redoStack: T[] = [];
+    private limit: number;
+
+    constructor(limit: number = 100) {
+        this.limit = limit;
+    }
+
+    push(command: T): void {
+        this.undoStack.push(command);
+        if (this.undoStack.length > this.limit) this.undoStack.shift();
+        this.redoStack = [];
+    }
+
+    undo(): T | null {
+        const command = this.undoStack.pop();
+        if (!command) return null;
+
+        this.redoStack.push(command);
+        return command;
+    }
+
+    redo(): T | null {
+        const command = this.redoStack.pop();
+        if (!command) return null;
+
+        this.undoStack.push(command);
+        return command;
+    }
+
+    canUndo(): boolean {
+        return this.undoStack.length > 0;
+    }
+
+    canRedo(): boolean {
+        return this.redoStack.length > 0;
+    }
+
+    clear(): void {
+        this.undoStack = [];
+        this.redoStack = [];
+    }
+}
+
+// put a word back to the weight it had, 0 meaning it was not stored
+const restoreWeight = (trie: Trie, word: string, weight: number): void => {
+    if (weight === 0) {
+        trie.delete(word);
+    } else if (trie.searchWord(word)) {
+        // only the weight changed, leave the structure alone
+        trie.setWeight(trie.keys(word), weight);
+    } else {
+        trie.insert(word, weight);
+    }
+};
+
+// revert a command, returning the trie that is current afterwards
+export const undoCommand = (trie: Trie, command: TrieCommand): Trie => {
+    switch (command.type) {
+        case 'insert':
+        case 'delete':
+            restoreWeight(trie, command.word, command.previousWeight);
+            return trie;
+        case 'replace':
+            return command.before;
+    }
+};
+
+// apply a command again, returning the trie that is current afterwards
+export const redoCommand = (trie: Trie, command: TrieCommand): Trie => {
+    switch (command.type) {
+        case 'insert':
+            trie.insert(command.word);
+            return trie;
+        case 'delete':
+            trie.delete(command.word);
+            return trie;
+        case 'replace':
+            return command.after;
+    }
+};
+
+export const describeCommand = (command: TrieCommand): string => {
+    return command.type === 'replace' ? command.label : `${command.type} "${command.word}"`;
+};
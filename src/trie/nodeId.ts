@@ -0,0 +1,4 @@
+let lastNodeId = 0;
+
+// ids are unique across every trie and radix trie, so views can mix them without collisions
+export const nextNodeId = (): number => ++lastNodeId;
@@ -0,0 +1,77 @@
+export type NormalizationOptions = {
+    caseFold: boolean;
+    form: 'none' | 'NFC' | 'NFD';
+    stripDiacritics: boolean;
+    segmentation: 'code-point' | 'grapheme';
+};
+
+// keeps words exactly as given, one key per code point
+export const RAW_NORMALIZATION: NormalizationOptions = {
+    caseFold: false,
+    form: 'none',
+    stripDiacritics: false,
+    segmentation: 'code-point',
+};
+
+// whether two policies turn every word into the same keys
+export const sameNormalization = (a: NormalizationOptions, b: NormalizationOptions): boolean =>
+    a.caseFold === b.caseFold && a.form === b.form
+    && a.stripDiacritics === b.stripDiacritics && a.segmentation === b.segmentation;
+
+// turns words into the keys a trie stores, the same way for every operation
+export class Normalizer {
+    readonly options: NormalizationOptions;
+    private segmenter: Intl.Segmenter | null;
+
+    constructor(options: Partial<NormalizationOptions> = {}) {
+        this.options = { ...RAW_NORMALIZATION, ...options };
+        this.segmenter = this.options.segmentation === 'grapheme' && typeof Intl.Segmenter === 'function'
+            ? new Intl.Segmenter(undefined, { granularity: 'grapheme' })
+            : null;
+    }
+
+    normalize(word: string): string {
+        const { caseFold, form, stripDiacritics } = this.options;
+        let result = word;
+
+        if (stripDiacritics) {
+            // decompose so accents become separate combining marks, then drop them
+            result = result.normalize('NFD').replace(/\p{M}/gu, '');
+        }
+        if (caseFold) {
+            // upper then lower folds cases like 'ß' -> 'ss' that toLowerCase alone misses
+            result = result.toUpperCase().toLowerCase();
+        }
+        if (form !== 'none') {
+            result = result.normalize(form);
+        }
+        return result;
+    }
+
+    // split already normalized text into keys
+    segment(text: string): string[] {
+        if (!this.segmenter) return [...text];
+        return Array.from(this.segmenter.segment(text), ({ segment }) => segment);
+    }
+
+    keys(word: string): string[] {
+        return this.segment(this.normalize(word));
+    }
+
+    // short summary for the UI, e.g. "case-fold · NFC · graphemes"
+    describe(): string {
+        const { caseFold, form, stripDiacritics, segmentation } = this.options;
+        const parts = [
+            caseFold ? 'case-fold' : 'case-sensitive',
+            form === 'none' ? 'no Unicode form' : form,
+        ];
+        if (stripDiacritics) parts.push('no diacritics');
+        if (segmentation === 'code-point') {
+            parts.push('code points');
+        } else {
+            // without Intl.Segmenter graphemes fall back to code points, which the summary should not hide
+            parts.push(this.segmenter ? 'graphemes' : 'code points (no grapheme support)');
+        }
+        return parts.join(' · ');
+    }
+}
@@ -0,0 +1,396 @@
+import { Trie, TrieNode, type QueryVisitor } from "./Trie";
+import type { RadixChange, RadixTrie } from "./RadixTrie";
+
+export type OperationType =
+    | 'insert' | 'search' | 'delete' | 'match'
+    | 'iterate' | 'count' | 'kth' | 'rank' | 'range' | 'common-prefix' | 'longest-prefix';
+
+export type StepKind = 'visit' | 'create' | 'mark-end' | 'unmark-end' | 'prune' | 'split' | 'merge';
+
+export type OperationStep = {
+    kind: StepKind;
+    path: string[];  // characters from root to the node this step touches
+    weight?: number; // word weight after mark-end, or the weight removed by unmark-end
+    label?: string;  // edge label of the node, for radix tries
+};
+
+// what an ordered query found, reported once playback reaches the end
+export type QueryResult = {
+    summary: string;
+    words?: string[];  // lit up at the end instead of the walked path
+};
+
+export type TrieOperation = {
+    type: OperationType;
+    word: string;
+    steps: OperationStep[];
+    result: boolean;  // inserted / found / deleted / matched anything
+    query?: QueryResult;
+};
+
+// moves a structure forward and backward through recorded steps
+export type StepRunner = {
+    apply: (step: OperationStep) => void;
+    revert: (step: OperationStep) => void;
+};
+
+// record the steps needed to insert a word, without touching the trie
+export const recordInsert = (trie: Trie, input: string): TrieOperation => {
+    const word = trie.normalize(input);
+    const steps: OperationStep[] = [{ kind: 'visit', path: [] }];
+    const path: string[] = [];
+    let currentNode: TrieNode | undefined = trie.getRoot();
+
+    for (const char of trie.normalizer.segment(word)) {
+        path.push(char);
+        currentNode = currentNode?.children.get(char);
+        steps.push({ kind: currentNode ? 'visit' : 'create', path: [...path] });
+    }
+
+    // inserting a stored word again only makes it heavier
+    const isNewWord = !currentNode?.isEndOfWord;
+    const weight = isNewWord ? 1 : currentNode!.weight + 1;
+
+    steps.push({ kind: 'mark-end', path: [...path], weight });
+    return { type: 'insert', word, steps, result: isNewWord };
+};
+
+// record the steps taken while looking up a word
+export const recordSearch = (trie: Trie, input: string): TrieOperation => {
+    const word = trie.normalize(input);
+    const steps: OperationStep[] = [{ kind: 'visit', path: [] }];
+    const path: string[] = [];
+    let currentNode = trie.getRoot();
+
+    for (const char of trie.normalizer.segment(word)) {
+        const child = currentNode.children.get(char);
+        if (!child) return { type: 'search', word, steps, result: false };
+
+        path.push(char);
+        steps.push({ kind: 'visit', path: [...path] });
+        currentNode = child;
+    }
+
+    return { type: 'search', word, steps, result: currentNode.isEndOfWord };
+};
+
+// record every node a pattern query visits, in the order it branches out
+export const recordMatch = (trie: Trie, pattern: string): TrieOperation => {
+    const steps: OperationStep[] = [];
+    const matches = trie.match(pattern, prefix => {
+        steps.push({ kind: 'visit', path: trie.normalizer.segment(prefix) });
+    });
+
+    return { type: 'match', word: trie.normalize(pattern), steps, result: matches.length > 0 };
+};
+
+// record every node an ordered query steps on, it only reads the trie
+const recordQuery = (
+    trie: Trie,
+    type: OperationType,
+    word: string,
+    run: (onVisit: QueryVisitor) => { result: boolean, query: QueryResult }
+): TrieOperation => {
+    const steps: OperationStep[] = [];
+    const { result, query } = run(prefix => {
+        steps.push({ kind: 'visit', path: trie.normalizer.segment(prefix) });
+    });
+    return { type, word, steps, result, query };
+};
+
+const SUMMARY_WORDS = 10;  // words quoted in a summary before the rest are only counted
+
+const quoteList = (words: string[]): string => {
+    const quoted = words.slice(0, SUMMARY_WORDS).map(word => `"${word}"`).join(', ');
+    return words.length > SUMMARY_WORDS ? `${quoted} and ${words.length - SUMMARY_WORDS} more` : quoted;
+};
+
+// the first few words under a prefix, the iterator stops walking once it has them
+export const recordIterate = (trie: Trie, prefix: string, limit: number): TrieOperation => {
+    const normalized = trie.normalize(prefix);
+    return recordQuery(trie, 'iterate', normalized, onVisit => {
+        const words: string[] = [];
+        for (const word of trie.wordsInOrder(prefix, onVisit)) {
+            words.push(word);
+            if (words.length >= limit) break;
+        }
+        const under = normalized ? ` starting with "${normalized}"` : '';
+        return {
+            result: words.length > 0,
+            query: {
+                summary: words.length > 0 ? `First words${under}: ${quoteList(words)}` : `No words${under}`,
+                words,
+            },
+        };
+    });
+};
+
+export const recordCount = (trie: Trie, prefix: string): TrieOperation => {
+    const normalized = trie.normalize(prefix);
+    return recordQuery(trie, 'count', normalized, onVisit => {
+        const count = trie.countWithPrefix(prefix, onVisit);
+        return { result: count > 0, query: { summary: `${count} words start with "${normalized}"` } };
+    });
+};
+
+export const recordKth = (trie: Trie, k: number): TrieOperation => {
+    return recordQuery(trie, 'kth', String(k), onVisit => {
+        const word = trie.kthWord(k, onVisit);
+        return {
+            result: word !== null,
+            query: {
+                summary: word !== null
+                    ? `The word at index ${k} is "${word}"`
+                    : `There is no word at index ${k}, indexes run from 0 to ${trie.wordCount() - 1}`,
+            },
+        };
+    });
+};
+
+export const recordRank = (trie: Trie, word: string): TrieOperation => {
+    const normalized = trie.normalize(word);
+    return recordQuery(trie, 'rank', normalized, onVisit => {
+        const rank = trie.rank(word, onVisit);
+        const stored = trie.searchWord(word);
+        return {
+            result: stored,
+            query: {
+                summary: stored
+                    ? `"${normalized}" is at index ${rank}, after ${rank} other words`
+                    : `"${normalized}" is not stored, it would go at index ${rank}`,
+            },
+        };
+    });
+};
+
+export const recordRange = (trie: Trie, low: string, high: string): TrieOperation => {
+    const range = `${trie.normalize(low)}..${trie.normalize(high)}`;
+    return recordQuery(trie, 'range', range, onVisit => {
+        const words = trie.wordsBetween(low, high, onVisit);
+        return {
+            result: words.length > 0,
+            query: {
+                summary: words.length > 0
+                    ? `${words.length} words from "${trie.normalize(low)}" to "${trie.normalize(high)}": ${quoteList(words)}`
+                    : `No words from "${trie.normalize(low)}" to "${trie.normalize(high)}"`,
+                words,
+            },
+        };
+    });
+};
+
+export const recordCommonPrefix = (trie: Trie): TrieOperation => {
+    return recordQuery(trie, 'common-prefix', '', onVisit => {
+        const prefix = trie.longestCommonPrefix(onVisit);
+        return {
+            result: prefix !== '',
+            query: { summary: prefix ? `Every word starts with "${prefix}"` : 'The words share no common prefix' },
+        };
+    });
+};
+
+export const recordLongestPrefix = (trie: Trie, text: string): TrieOperation => {
+    const normalized = trie.normalize(text);
+    return recordQuery(trie, 'longest-prefix', normalized, onVisit => {
+        const word = trie.longestPrefixOf(text, onVisit);
+        return {
+            result: word !== null,
+            query: {
+                summary: word !== null
+                    ? `"${word}" is the longest stored word "${normalized}" starts with`
+                    : `No stored word is a prefix of "${normalized}"`,
+                // the walk may run past the answer, so only the answer stays lit
+                words: word !== null ? [word] : [],
+            },
+        };
+    });
+};
+
+// record the steps needed to delete a word: walk down, unmark, then prune bottom-up
+export const recordDelete = (trie: Trie, input: string): TrieOperation => {
+    const search = recordSearch(trie, input);
+    if (!search.result) return { ...search, type: 'delete' };
+
+    const { word } = search;
+    const steps = [...search.steps];
+    const path = trie.normalizer.segment(word);
+
+    // nodes on the way down, so we can check them from the bottom
+    const nodes: TrieNode[] = [trie.getRoot()];
+    for (const char of path) {
+        nodes.push(nodes[nodes.length - 1].children.get(char)!);
+    }
+
+    steps.push({ kind: 'unmark-end', path: [...path], weight: nodes[path.length].weight });
+
+    for (let depth = path.length; depth > 0; depth--) {
+        const node = nodes[depth];
+        // the leaf itself is about to lose its end mark
+        const isEndOfWord = depth === path.length ? false : node.isEndOfWord;
+        // a child we keep would still hang off this node
+        const childCount = depth === path.length ? node.children.size : node.children.size - 1;
+
+        if (isEndOfWord || childCount > 0) break;
+        steps.push({ kind: 'prune', path: path.slice(0, depth) });
+    }
+
+    return { type: 'delete', word, steps, result: true };
+};
+
+// move the trie one step forward
+export const applyStep = (trie: Trie, step: OperationStep): void => {
+    switch (step.kind) {
+        case 'create':
+            trie.addNode(step.path);
+            break;
+        case 'prune':
+            trie.pruneNode(step.path);
+            break;
+        case 'mark-end':
+            trie.setWeight(step.path, step.weight ?? 1);
+            break;
+        case 'unmark-end':
+            trie.setWeight(step.path, 0);
+            break;
+    }
+};
+
+// undo a step that was previously applied
+export const revertStep = (trie: Trie, step: OperationStep): void => {
+    switch (step.kind) {
+        case 'create':
+            trie.pruneNode(step.path);
+            break;
+        case 'prune':
+            trie.addNode(step.path);
+            break;
+        case 'mark-end':
+            trie.setWeight(step.path, (step.weight ?? 1) - 1);
+            break;
+        case 'unmark-end':
+            trie.setWeight(step.path, step.weight ?? 1);
+            break;
+    }
+};
+
+export const trieRunner = (trie: Trie): StepRunner => ({
+    apply: step => applyStep(trie, step),
+    revert: step => revertStep(trie, step),
+});
+
+// turn what a radix trie reports while it runs into steps
+const radixRecorder = (radix: RadixTrie, steps: OperationStep[]) =>
+    (change: RadixChange, prefix: string, label: string) => {
+        steps.push({ kind: change, path: radix.normalizer.segment(prefix), label });
+    };
+
+// run a radix trie operation for real, then roll it back so only the steps remain
+const recordRadix = (
+    radix: RadixTrie,
+    type: OperationType,
+    word: string,
+    run: (onChange: (change: RadixChange, prefix: string, label: string) => void) => boolean
+): TrieOperation => {
+    const steps: OperationStep[] = [];
+    const result = run(radixRecorder(radix, steps));
+
+    [...steps].reverse().forEach(step => revertRadixStep(radix, step));
+    return { type, word: radix.normalizer.normalize(word), steps, result };
+};
+
+export const recordRadixInsert = (radix: RadixTrie, word: string): TrieOperation => {
+    const isNewWord = !radix.searchWord(word);
+    return recordRadix(radix, 'insert', word, onChange => {
+        radix.insert(word, onChange);
+        return isNewWord;
+    });
+};
+
+// a lookup only walks, so its steps come straight from the walk and the trie is never touched
+export const recordRadixSearch = (radix: RadixTrie, word: string): TrieOperation => {
+    const steps: OperationStep[] = [];
+    const result = radix.searchWord(word, radixRecorder(radix, steps));
+    return { type: 'search', word: radix.normalizer.normalize(word), steps, result };
+};
+
+export const recordRadixDelete = (radix: RadixTrie, word: string): TrieOperation => {
+    return recordRadix(radix, 'delete', word, onChange => radix.delete(word, onChange));
+};
+
+export const applyRadixStep = (radix: RadixTrie, step: OperationStep): void => {
+    const prefix = step.path.join('');
+
+    switch (step.kind) {
+        case 'create':
+            radix.addLeaf(prefix);
+            break;
+        case 'prune':
+            radix.removeLeaf(prefix);
+            break;
+        case 'split':
+            radix.splitAt(prefix);
+            break;
+        case 'merge':
+            radix.mergeAt(prefix);
+            break;
+        case 'mark-end':
+        case 'unmark-end':
+            radix.setEndOfWord(prefix, step.kind === 'mark-end');
+            break;
+    }
+};
+
+export const revertRadixStep = (radix: RadixTrie, step: OperationStep): void => {
+    const inverse: Record<StepKind, StepKind> = {
+        'visit': 'visit',
+        'create': 'prune',
+        'prune': 'create',
+        'split': 'merge',
+        'merge': 'split',
+        'mark-end': 'unmark-end',
+        'unmark-end': 'mark-end',
+    };
+    applyRadixStep(radix, { ...step, kind: inverse[step.kind] });
+};
+
+export const radixRunner = (radix: RadixTrie): StepRunner => ({
+    apply: step => applyRadixStep(radix, step),
+    revert: step => revertRadixStep(radix, step),
+});
+
+// how an operation ended, read out once its last step is applied
+export const describeOutcome = (operation: TrieOperation): string => {
+    switch (operation.type) {
+        case 'insert': return operation.result ? 'word inserted' : 'word already stored';
+        case 'search': return operation.result ? 'word found' : 'word not found';
+        case 'delete': return operation.result ? 'word deleted' : 'word not found';
+        case 'match': return operation.result ? 'pattern matched' : 'no words match';
+        case 'iterate':
+        case 'count':
+        case 'kth':
+        case 'rank':
+        case 'range':
+        case 'common-prefix':
+        case 'longest-prefix':
+            return operation.query?.summary ?? '';
+    }
+};
+
+// human readable description of a step, shown in the playback bar
+export const describeStep = (step: OperationStep): string => {
+    const label = step.path.length === 0 ? 'root' : `'${step.label ?? step.path[step.path.length - 1]}'`;
+    const prefix = `"${step.path.join('')}"`;
+
+    switch (step.kind) {
+        case 'visit': return `Visiting ${label}`;
+        case 'create': return `Created node ${label}`;
+        case 'mark-end':
+            return step.weight && step.weight > 1
+                ? `Increased weight of ${label} to ${step.weight}`
+                : `Marked ${label} as end of word`;
+        case 'unmark-end': return `Unmarked ${label} as end of word`;
+        case 'prune': return `Pruned node ${label}`;
+        case 'split': return `Split edge at ${prefix}`;
+        case 'merge': return `Merged ${prefix} into ${label}`;
+    }
+};
@@ -0,0 +1,300 @@
+import { Trie, TrieNode, type Completion } from "./Trie";
+import { Normalizer, RAW_NORMALIZATION, type NormalizationOptions } from "./normalization";
+
+const FORMAT = 'trie-visualizer';
+const WORDS_FORMAT = 'trie-visualizer-words';
+const VERSION = 1;
+
+// JSON shape of a node, defaults are left out to keep files small
+type SerializedNode = {
+    end?: boolean;
+    weight?: number;
+    children?: Record<string, SerializedNode>;
+};
+
+type SerializedTrie = {
+    format: typeof FORMAT;
+    version: typeof VERSION;
+    normalization?: NormalizationOptions;  // missing in older exports, which were stored raw
+    root: SerializedNode;
+};
+
+// thrown when imported data cannot be turned into a trie
+export class TrieFormatError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'TrieFormatError';
+    }
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> => {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const serializeNode = (node: TrieNode): SerializedNode => {
+    const serialized: SerializedNode = {};
+
+    if (node.isEndOfWord) {
+        serialized.end = true;
+        if (node.weight !== 1) serialized.weight = node.weight;
+    }
+
+    if (node.children.size > 0) {
+        serialized.children = {};
+        for (const [char, child] of node.children) {
+            serialized.children[char] = serializeNode(child);
+        }
+    }
+
+    return serialized;
+};
+
+// export the full structure, including end-of-word flags and weights
+export const exportTrieJson = (trie: Trie): string => {
+    const serialized: SerializedTrie = {
+        format: FORMAT,
+        version: VERSION,
+        normalization: trie.normalizer.options,
+        root: serializeNode(trie.getRoot()),
+    };
+    return JSON.stringify(serialized, null, 2);
+};
+
+// import either JSON format, the full structure from exportTrieJson or the word list from exportWordsJson,
+// rejecting anything malformed
+export const importTrieJson = (json: string): Trie => {
+    let data: unknown;
+    try {
+        data = JSON.parse(json);
+    } catch {
+        throw new TrieFormatError('File is not valid JSON');
+    }
+
+    if (isObject(data) && data.format === WORDS_FORMAT) return readWords(data);
+    if (!isObject(data) || data.format !== FORMAT) {
+        throw new TrieFormatError(`JSON is not a ${FORMAT} export`);
+    }
+    return readStructure(data);
+};
+
+// the full structure, checked node by node
+const readStructure = (data: Record<string, unknown>): Trie => {
+    if (data.version !== VERSION) {
+        throw new TrieFormatError(`Unsupported export version ${String(data.version)}`);
+    }
+
+    const normalization = readNormalization(data.normalization);
+    const normalizer = new Normalizer(normalization);
+
+    // the structure is fully defined by its words, so collect them while validating
+    const words: Completion[] = [];
+
+    const readNode = (value: unknown, prefix: string, path: string[]): void => {
+        const where = prefix ? `node "${prefix}"` : 'root';
+        if (!isObject(value)) throw new TrieFormatError(`${where} is not an object`);
+
+        const { end = false, weight = 1, children = {} } = value;
+
+        if (typeof end !== 'boolean') {
+            throw new TrieFormatError(`${where} has a non-boolean "end" flag`);
+        }
+        if (typeof weight !== 'number' || !Number.isInteger(weight) || weight < 1) {
+            throw new TrieFormatError(`${where} has an invalid weight`);
+        }
+        if (!isObject(children)) {
+            throw new TrieFormatError(`${where} has invalid children`);
+        }
+
+        if (!prefix && end) {
+            throw new TrieFormatError('root cannot end a word');
+        }
+
+        const keys = Object.keys(children);
+        if (prefix && !end && keys.length === 0) {
+            throw new TrieFormatError(`${where} is a leaf that does not end a word`);
+        }
+        if (end) {
+            // rebuilding goes through the normalization, keys it would store differently could merge siblings
+            const stored = normalizer.keys(prefix);
+            if (stored.length !== path.length || stored.some((key, index) => key !== path[index])) {
+                throw new TrieFormatError(`${where} is stored under keys that are not normalized with the export's settings`);
+            }
+            words.push({ word: prefix, weight });
+        }
+
+        for (const key of keys) {
+            if (normalizer.segment(key).length !== 1) {
+                throw new TrieFormatError(`${where} has a child key "${key}" that is not a single character`);
+            }
+            readNode(children[key], prefix + key, [...path, key]);
+        }
+    };
+
+    readNode(data.root, '', []);
+    return trieFromWords(words, normalization);
+};
+
+// a word alone when its weight is 1, paired with its weight otherwise
+type SerializedWord = string | [word: string, weight: number];
+
+type SerializedWords = {
+    format: typeof WORDS_FORMAT;
+    version: typeof VERSION;
+    normalization: NormalizationOptions;
+    words: SerializedWord[];
+};
+
+// export only the words and weights, a fraction of the full structure and enough to rebuild it
+export const exportWordsJson = (trie: Trie): string => {
+    const serialized: SerializedWords = {
+        format: WORDS_FORMAT,
+        version: VERSION,
+        normalization: trie.normalizer.options,
+        words: trie.autocomplete('', Infinity).map(({ word, weight }) => weight === 1 ? word : [word, weight]),
+    };
+    return JSON.stringify(serialized);
+};
+
+// the words and weights alone, as the dictionary store keeps them
+const readWords = (data: Record<string, unknown>): Trie => {
+    if (data.version !== VERSION) {
+        throw new TrieFormatError(`Unsupported word list version ${String(data.version)}`);
+    }
+    if (!Array.isArray(data.words)) {
+        throw new TrieFormatError('Word list has no words array');
+    }
+
+    const normalization = readNormalization(data.normalization);
+    const normalizer = new Normalizer(normalization);
+
+    const words = data.words.map((entry: unknown): Completion => {
+        const [word, weight] = typeof entry === 'string' ? [entry, 1] : Array.isArray(entry) ? entry : [];
+        if (typeof word !== 'string' || normalizer.keys(word).length === 0) {
+            throw new TrieFormatError(`Word list has an invalid entry ${JSON.stringify(entry)}`);
+        }
+        if (typeof weight !== 'number' || !Number.isInteger(weight) || weight < 1) {
+            throw new TrieFormatError(`"${word}" has an invalid weight`);
+        }
+        return { word, weight };
+    });
+    return trieFromWords(words, normalization);
+};
+
+const FORMS: NormalizationOptions['form'][] = ['none', 'NFC', 'NFD'];
+const SEGMENTATIONS: NormalizationOptions['segmentation'][] = ['code-point', 'grapheme'];
+
+const readNormalization = (value: unknown): NormalizationOptions => {
+    if (value === undefined) return RAW_NORMALIZATION;
+
+    if (!isObject(value)
+        || typeof value.caseFold !== 'boolean'
+        || typeof value.stripDiacritics !== 'boolean'
+        || !FORMS.includes(value.form as NormalizationOptions['form'])
+        || !SEGMENTATIONS.includes(value.segmentation as NormalizationOptions['segmentation'])) {
+        throw new TrieFormatError('Export has invalid normalization settings');
+    }
+    return value as NormalizationOptions;
+};
+
+// parse a newline separated word list, skipping blank lines
+export const parseWordList = (text: string): string[] => {
+    if (text.includes('\0')) {
+        throw new TrieFormatError('File looks binary, expected plain text with one word per line');
+    }
+
+    const words = text.split(/\r?\n/).map(line => line.trim()).filter(line => line.length > 0);
+    if (words.length === 0) {
+        throw new TrieFormatError('Word list is empty');
+    }
+    return words;
+};
+
+// words that normalize to the same keys end up as one, with their weights added
+export const trieFromWords = (
+    words: (string | Completion)[],
+    normalization: Partial<NormalizationOptions> = {}
+): Trie => {
+    const trie = new Trie(normalization);
+    words.forEach(entry => {
+        if (typeof entry === 'string') {
+            trie.insert(entry);
+        } else {
+            trie.insert(entry.word, entry.weight);
+        }
+    });
+    return trie;
+};
+
+const HASH_KEY = 'words=';
+const HASH_NORMALIZATION_KEY = 'normalization=';
+
+// words from a shared link, with the normalization they were stored under
+export type SharedWords = {
+    words: Completion[];
+    normalization: NormalizationOptions | null;  // null for links made before it was part of them
+};
+
+// "fold.NFC.keep.grapheme", in the order of NormalizationOptions
+const encodeNormalization = ({ caseFold, form, stripDiacritics, segmentation }: NormalizationOptions): string => {
+    return [caseFold ? 'fold' : 'case', form, stripDiacritics ? 'strip' : 'keep', segmentation].join('.');
+};
+
+const decodeNormalization = (text: string): NormalizationOptions => {
+    const [caseFold, form, stripDiacritics, segmentation] = text.split('.');
+    if (!['fold', 'case'].includes(caseFold) || !['strip', 'keep'].includes(stripDiacritics)) {
+        throw new TrieFormatError(`Shared link has invalid normalization settings "${text}"`);
+    }
+    try {
+        return readNormalization({
+            caseFold: caseFold === 'fold', form, stripDiacritics: stripDiacritics === 'strip', segmentation
+        });
+    } catch {
+        throw new TrieFormatError(`Shared link has invalid normalization settings "${text}"`);
+    }
+};
+
+// "#words=gas:3,garlic&normalization=fold.NFC.keep.grapheme" - encodeURIComponent escapes ',', ':' and '&' inside words
+export const encodeWordsHash = (trie: Trie): string => {
+    const entries = trie.autocomplete('', Infinity).map(({ word, weight }) => {
+        const encoded = encodeURIComponent(word);
+        return weight === 1 ? encoded : `${encoded}:${weight}`;
+    });
+    return `#${HASH_KEY}${entries.join(',')}&${HASH_NORMALIZATION_KEY}${encodeNormalization(trie.normalizer.options)}`;
+};
+
+// words shared through the URL hash, or null when the hash holds none
+export const decodeWordsHash = (hash: string): SharedWords | null => {
+    const [raw, ...parameters] = hash.replace(/^#/, '').split('&');
+    if (!raw.startsWith(HASH_KEY)) return null;
+
+    const entries = raw.slice(HASH_KEY.length).split(',').filter(entry => entry.length > 0);
+    if (entries.length === 0) {
+        throw new TrieFormatError('Shared link contains no words');
+    }
+
+    const words = entries.map(entry => {
+        const separator = entry.lastIndexOf(':');
+        const encodedWord = separator === -1 ? entry : entry.slice(0, separator);
+        const weight = separator === -1 ? 1 : Number(entry.slice(separator + 1));
+
+        if (!Number.isInteger(weight) || weight < 1) {
+            throw new TrieFormatError(`Shared link has an invalid weight in "${entry}"`);
+        }
+
+        let word: string;
+        try {
+            word = decodeURIComponent(encodedWord);
+        } catch {
+            throw new TrieFormatError(`Shared link has a badly encoded word "${encodedWord}"`);
+        }
+        if (!word) throw new TrieFormatError('Shared link contains an empty word');
+
+        return { word, weight };
+    });
+
+    const normalization = parameters.find(parameter => parameter.startsWith(HASH_NORMALIZATION_KEY));
+    return {
+        words,
+        normalization: normalization ? decodeNormalization(normalization.slice(HASH_NORMALIZATION_KEY.length)) : null,
+    };
+};
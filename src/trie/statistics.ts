@@ -0,0 +1,50 @@
+// rough sizes of heap objects on a 64-bit engine, in bytes, good enough to compare layouts
+const OBJECT_HEADER = 24;
+const FIELD = 8;
+const STRING_HEADER = 16;
+const CODE_UNIT = 2;
+const MAP_HEADER = 80;
+const MAP_ENTRY = 24;   // key, value and chain slot, plus room the table keeps free
+const SET_ENTRY = 16;
+const ARRAY_HEADER = 16;
+
+const TRIE_NODE_FIELDS = 7;
+
+export type MemoryEstimate = {
+    trie: number;   // nodes, their child maps, keys and prefixes
+    array: number;  // the words in a plain array
+    set: number;    // the words in a Set
+};
+
+export type TrieStatistics = {
+    words: number;
+    nodes: number;          // including the root
+    sharedNodes: number;    // nodes on the path of more than one word
+    keysStored: number;     // keys across all words, the nodes a trie without sharing would need
+    averageDepth: number;   // keys per word
+    maxDepth: number;
+    branching: Map<number, number>;  // child count -> nodes with that many children, leaves included
+    memory: MemoryEstimate;
+};
+
+// what the trie walk has to collect for the memory estimate, lengths in UTF-16 code units
+export type MemoryInputs = {
+    nodes: number;
+    edges: number;
+    keyLength: number;     // all child map keys together
+    prefixLength: number;  // all node prefixes together
+    wordLength: number;    // all stored words together
+    words: number;
+};
+
+export const estimateMemory = ({ nodes, edges, keyLength, prefixLength, wordLength, words }: MemoryInputs): MemoryEstimate => {
+    const wordStrings = words * STRING_HEADER + wordLength * CODE_UNIT;
+    return {
+        trie: nodes * (OBJECT_HEADER + TRIE_NODE_FIELDS * FIELD + MAP_HEADER + STRING_HEADER)
+            + prefixLength * CODE_UNIT
+            + edges * (MAP_ENTRY + STRING_HEADER)
+            + keyLength * CODE_UNIT,
+        array: ARRAY_HEADER + words * FIELD + wordStrings,
+        set: MAP_HEADER + words * SET_ENTRY + wordStrings,
+    };
+};
@@ -0,0 +1,124 @@
+import type { Trie, TrieNode } from "./Trie";
+import { createRandom } from "./benchmark";
+
+export const MIN_GRID_SIZE = 3;
+export const MAX_GRID_SIZE = 6;
+export const MIN_WORD_LENGTH = 3;  // shorter words do not count, as in Boggle
+
+// one key per cell, rows of equal length
+export type LetterGrid = string[][];
+
+export type Cell = [row: number, column: number];
+
+export type GridStepKind = 'extend' | 'found' | 'prune';
+
+// one cell the search tried to add to the path it is on
+export type GridStep = {
+    kind: GridStepKind;
+    cells: Cell[];   // the path, ending with the cell tried
+    prefix: string;  // letters along the path, not in the trie when pruned
+};
+
+export type FoundWord = {
+    word: string;
+    cells: Cell[];
+    score: number;
+};
+
+export type GridSolution = {
+    words: FoundWord[];  // in the order they were found
+    steps: GridStep[];
+    score: number;
+    explored: number;    // paths that were still a prefix of some word
+    pruned: number;      // branches cut because no word starts with their letters
+};
+
+// thrown when an entered grid is not a square of letters
+export class GridFormatError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'GridFormatError';
+    }
+}
+
+// english letter frequencies, so generated grids hold words now and then
+const LETTER_POOL = 'eeeeeeeeeeeeaaaaaaaaaiiiiiiiiioooooooonnnnnnrrrrrrttttttllllssssuuuuddddgggbbccmmppffhhvvwwyykjxqz';
+
+export const generateGrid = (size: number, seed: number): LetterGrid => {
+    const random = createRandom(seed);
+    return Array.from({ length: size }, () =>
+        Array.from({ length: size }, () => LETTER_POOL[Math.floor(random() * LETTER_POOL.length)]));
+};
+
+// one row per line, normalized like the trie's words so the letters can be looked up
+export const parseGrid = (text: string, trie: Trie): LetterGrid => {
+    const rows = text.split('\n')
+        .map(line => trie.keys(line).filter(key => key.trim() !== ''))
+        .filter(row => row.length > 0);
+
+    const size = rows.length;
+    if (size < MIN_GRID_SIZE || size > MAX_GRID_SIZE) {
+        throw new GridFormatError(`a grid has ${MIN_GRID_SIZE} to ${MAX_GRID_SIZE} rows, this one has ${size}`);
+    }
+    rows.forEach((row, index) => {
+        if (row.length !== size) {
+            throw new GridFormatError(`row ${index + 1} has ${row.length} letters, every row needs ${size}`);
+        }
+    });
+    return rows;
+};
+
+export const formatGrid = (grid: LetterGrid): string => grid.map(row => row.join('')).join('\n');
+
+// points for a word of that many keys, the classic Boggle table
+export const scoreWord = (length: number): number => {
+    if (length < MIN_WORD_LENGTH) return 0;
+    if (length <= 4) return 1;
+    if (length === 5) return 2;
+    if (length === 6) return 3;
+    if (length === 7) return 5;
+    return 11;
+};
+
+// every dictionary word the grid spells along adjacent cells, each cell used once per word
+export const solveGrid = (trie: Trie, grid: LetterGrid): GridSolution => {
+    const steps: GridStep[] = [];
+    const found = new Map<string, FoundWord>();
+    let explored = 0;
+    let pruned = 0;
+
+    // stepping down one child per cell is the startsWith check, done without starting over from the root
+    const visit = (cell: Cell, parent: TrieNode, path: Cell[]) => {
+        const [row, column] = cell;
+        const cells = [...path, cell];
+        const node = parent.children.get(grid[row][column]);
+
+        if (!node) {
+            pruned++;
+            steps.push({ kind: 'prune', cells, prefix: parent.prefix + grid[row][column] });
+            return;
+        }
+
+        explored++;
+        const isNewWord = node.isEndOfWord && cells.length >= MIN_WORD_LENGTH && !found.has(node.prefix);
+        if (isNewWord) {
+            found.set(node.prefix, { word: node.prefix, cells, score: scoreWord(cells.length) });
+        }
+        steps.push({ kind: isNewWord ? 'found' : 'extend', cells, prefix: node.prefix });
+
+        // the eight neighbours that are on the grid and not on the path yet
+        for (let dRow = -1; dRow <= 1; dRow++) {
+            for (let dColumn = -1; dColumn <= 1; dColumn++) {
+                const next: Cell = [row + dRow, column + dColumn];
+                if (next[0] < 0 || next[0] >= grid.length || next[1] < 0 || next[1] >= grid[next[0]].length) continue;
+                if (cells.some(([r, c]) => r === next[0] && c === next[1])) continue;
+                visit(next, node, cells);
+            }
+        }
+    };
+
+    grid.forEach((cells, row) => cells.forEach((_, column) => visit([row, column], trie.getRoot(), [])));
+
+    const words = [...found.values()];
+    return { words, steps, score: words.reduce((total, word) => total + word.score, 0), explored, pruned };
+};